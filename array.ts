@@ -0,0 +1,241 @@
+/**
+ * @module
+ * Mapping of reactive lists where mapped items are reused across changes, each
+ * mapped item has its own owner scope that is disposed once it's removed.
+ */
+
+import { Computed, Flags, type ReadonlySignal, Scope, type Signal, signal, untrack } from './mod.ts';
+
+/**
+ * Signal or getter function returning the list to map, this can also be an
+ * array from a reactive proxy.
+ */
+export type ListSource<T> = ReadonlySignal<readonly T[]> | (() => readonly T[]);
+
+export interface MapArrayOptions<T> {
+	/** Function returning the key that identifies an item, defaults to the item itself */
+	key?: (item: T) => unknown;
+}
+
+interface MappedItem<U> {
+	_scope: Scope;
+	_index: Signal<number>;
+	_mapped: U;
+}
+
+interface IndexedItem<T, U> {
+	_scope: Scope;
+	_value: Signal<T>;
+	_mapped: U;
+}
+
+/**
+ * Signal holding the mapped list, the mapped items are disposed alongside it.
+ */
+export class MappedArray<U> extends Computed<U[]> {
+	/** @internal Scope the mapped items are attached to */
+	_container: Scope;
+
+	constructor(update: () => U[], container: Scope) {
+		super(update, [], { equals: is_shallow_equal });
+
+		this._container = container;
+	}
+
+	/** @internal */
+	override _dispose(): void {
+		super._dispose();
+		this._container._dispose();
+	}
+
+	/**
+	 * Disposes of the mapped items, this happens automatically if it was created
+	 * under an effect or a scope.
+	 */
+	dispose(): void {
+		this._dispose();
+	}
+}
+
+function read<T>(source: ListSource<T>): readonly T[] {
+	return typeof source === 'function' ? source() : source.value;
+}
+
+function is_shallow_equal(a: unknown[], b: unknown[]): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+
+	for (let i = 0, ilen = a.length; i < ilen; i++) {
+		if (a[i] !== b[i]) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+function create_item_scope(container: Scope): Scope {
+	// Item scopes are disposed by us rather than by the container, they're only
+	// linked to it so that errors reach the right error boundary.
+	const scope = new Scope(true);
+	scope._owner = container;
+
+	return scope;
+}
+
+function is_disposed(container: Scope): boolean {
+	return (container._flags & Flags.DISPOSED) !== 0;
+}
+
+function run_item<U>(scope: Scope, fn: () => U): U {
+	try {
+		return untrack(() => scope._run(fn));
+	} catch (err) {
+		scope._dispose();
+		throw err;
+	}
+}
+
+/**
+ * Maps a list by its items, mapped items are reused as long as the key of the
+ * item is still present in the list, and are disposed once it no longer is.
+ * @param list Signal or getter function returning the list
+ * @param map_fn Function mapping an item, ran without being tracked
+ * @param options Mapping options
+ * @returns Signal holding the mapped list
+ */
+export function mapArray<T, U>(
+	list: ListSource<T>,
+	map_fn: (item: T, index: ReadonlySignal<number>) => U,
+	options?: MapArrayOptions<T>,
+): MappedArray<U> {
+	const key_fn = options?.key;
+	const container = new Scope(false);
+
+	let items = new Map<unknown, MappedItem<U>[]>();
+
+	const dispose_items = (target: Map<unknown, MappedItem<U>[]>) => {
+		for (const group of target.values()) {
+			for (let i = 0, ilen = group.length; i < ilen; i++) {
+				group[i]._scope._dispose();
+			}
+		}
+
+		target.clear();
+	};
+
+	container._cleanups.push(() => dispose_items(items));
+
+	const update = (): U[] => {
+		const values = read(list);
+		const next_items = new Map<unknown, MappedItem<U>[]>();
+		const result: U[] = [];
+
+		try {
+			for (let i = 0, ilen = values.length; i < ilen; i++) {
+				const value = values[i];
+				const key = key_fn !== undefined ? key_fn(value) : value;
+
+				// Items sharing the same key are reused in the order they appear.
+				let item = items.get(key)?.shift();
+
+				if (item !== undefined) {
+					item._index.value = i;
+				} else {
+					const index = signal(i);
+					const scope = create_item_scope(container);
+
+					item = { _scope: scope, _index: index, _mapped: run_item(scope, () => map_fn(value, index)) };
+				}
+
+				const group = next_items.get(key);
+
+				if (group !== undefined) {
+					group.push(item);
+				} else {
+					next_items.set(key, [item]);
+				}
+
+				result.push(item._mapped);
+			}
+		} catch (err) {
+			// Items taken out for reuse are no longer held by anything.
+			dispose_items(next_items);
+			throw err;
+		}
+
+		// Whatever that wasn't reused has been removed from the list.
+		dispose_items(items);
+		items = next_items;
+
+		// Reading it after it's been disposed still maps the list, but the items
+		// aren't kept around.
+		if (is_disposed(container)) {
+			dispose_items(items);
+		}
+
+		return result;
+	};
+
+	return new MappedArray(update, container);
+}
+
+/**
+ * Maps a list by its indexes, mapped items are reused as long as the index is
+ * still present in the list, and are disposed once it no longer is.
+ * @param list Signal or getter function returning the list
+ * @param map_fn Function mapping an item, ran without being tracked
+ * @returns Signal holding the mapped list
+ */
+export function indexArray<T, U>(
+	list: ListSource<T>,
+	map_fn: (item: ReadonlySignal<T>, index: number) => U,
+): MappedArray<U> {
+	const container = new Scope(false);
+
+	const items: IndexedItem<T, U>[] = [];
+
+	const dispose_items = (start: number) => {
+		for (let i = start, ilen = items.length; i < ilen; i++) {
+			items[i]._scope._dispose();
+		}
+
+		items.length = start;
+	};
+
+	container._cleanups.push(() => dispose_items(0));
+
+	const update = (): U[] => {
+		const values = read(list);
+		const len = values.length;
+		const prev_len = items.length;
+
+		for (let i = 0; i < len; i++) {
+			const value = values[i];
+
+			if (i < prev_len) {
+				items[i]._value.value = value;
+			} else {
+				const item = signal(value);
+				const scope = create_item_scope(container);
+
+				items.push({ _scope: scope, _value: item, _mapped: run_item(scope, () => map_fn(item, i)) });
+			}
+		}
+
+		dispose_items(len);
+
+		const result = items.map((item) => item._mapped);
+
+		// Reading it after it's been disposed still maps the list, but the items
+		// aren't kept around.
+		if (is_disposed(container)) {
+			dispose_items(0);
+		}
+
+		return result;
+	};
+
+	return new MappedArray(update, container);
+}
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+
+import { mapArray } from './array.ts';
+import { cleanup, effect, type ReadonlySignal, signal } from './mod.ts';
+
+Deno.test('Disposed mapped lists still map on read, without keeping items', () => {
+	const list = signal([1, 2, 3]);
+	const rerun = signal(0);
+	const disposed: number[] = [];
+
+	let mapped!: ReadonlySignal<number[]>;
+
+	const dispose = effect(() => {
+		if (rerun.value === 0) {
+			mapped = mapArray(list, (item) => {
+				cleanup(() => disposed.push(item));
+				return item * 2;
+			});
+
+			mapped.value;
+		}
+	});
+
+	rerun.value = 1;
+	assert.deepEqual(disposed, [1, 2, 3]);
+
+	list.value = [4, 5];
+	assert.deepEqual(mapped.value, [8, 10]);
+	assert.deepEqual(disposed, [1, 2, 3, 4, 5]);
+
+	dispose();
+});
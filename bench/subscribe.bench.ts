@@ -0,0 +1,114 @@
+import { computed, type DisposeFunction, effect, signal } from '../mod.ts';
+
+function create_effects(count: number) {
+	const source = signal(0);
+	const disposers: DisposeFunction[] = [];
+
+	for (let i = 0; i < count; i++) {
+		disposers.push(effect(() => {
+			source.value;
+		}));
+	}
+
+	return { source, disposers };
+}
+
+/**
+ * Dependants kept in an array like they used to be, unsubscribing has to look
+ * up the dependant and shift every dependant after it.
+ */
+function create_array_dependants(count: number) {
+	const dependants: object[] = [];
+
+	for (let i = 0; i < count; i++) {
+		dependants.push({});
+	}
+
+	return { dependants, targets: dependants.slice() };
+}
+
+function unsubscribe_from_array(dependants: object[], target: object) {
+	dependants.splice(dependants.indexOf(target), 1);
+}
+
+for (const count of [10_000, 50_000]) {
+	Deno.bench({
+		name: `unsubscribe ${count} array-backed dependants in creation order`,
+		group: `dispose ${count}`,
+		baseline: true,
+		fn(b) {
+			const { dependants, targets } = create_array_dependants(count);
+
+			b.start();
+			for (let i = 0; i < count; i++) {
+				unsubscribe_from_array(dependants, targets[i]);
+			}
+			b.end();
+		},
+	});
+
+	Deno.bench({
+		name: `unsubscribe ${count} array-backed dependants in reverse order`,
+		group: `dispose ${count}`,
+		fn(b) {
+			const { dependants, targets } = create_array_dependants(count);
+
+			b.start();
+			for (let i = count - 1; i >= 0; i--) {
+				unsubscribe_from_array(dependants, targets[i]);
+			}
+			b.end();
+		},
+	});
+
+	Deno.bench({
+		name: `dispose ${count} effects in creation order`,
+		group: `dispose ${count}`,
+		fn(b) {
+			const { disposers } = create_effects(count);
+
+			b.start();
+			for (let i = 0; i < count; i++) {
+				disposers[i]();
+			}
+			b.end();
+		},
+	});
+
+	Deno.bench({
+		name: `dispose ${count} effects in reverse order`,
+		group: `dispose ${count}`,
+		fn(b) {
+			const { disposers } = create_effects(count);
+
+			b.start();
+			for (let i = count - 1; i >= 0; i--) {
+				disposers[i]();
+			}
+			b.end();
+		},
+	});
+
+	Deno.bench({
+		name: `resubscribe ${count} effects through a computed`,
+		group: `resubscribe ${count}`,
+		fn(b) {
+			const source = signal(0);
+			const toggle = signal(false);
+			const derived = computed(() => source.value);
+
+			for (let i = 0; i < count; i++) {
+				effect(() => {
+					if (toggle.value) {
+						derived.value;
+					}
+				});
+			}
+
+			b.start();
+			toggle.value = true;
+			toggle.value = false;
+			b.end();
+		},
+	});
+}
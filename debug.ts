@@ -0,0 +1,252 @@
+/**
+ * @module
+ * Introspection of the dependency graph, for debugging purposes.
+ */
+
+import { Computed, Effect, Flags, set_trace_hook, type Signal } from './mod.ts';
+
+/**
+ * Any node in the dependency graph.
+ */
+export type GraphNode = Signal<any> | Effect<any>;
+
+/**
+ * Flags of a node in readable form.
+ */
+export type NodeFlag = 'running' | 'dirty' | 'maybe-dirty' | 'tracking' | 'notified' | 'disposed' | 'errored';
+
+export interface GraphNodeInfo {
+	/** Identifier of this node, only unique within the same graph */
+	id: number;
+	/** Kind of node */
+	type: 'signal' | 'computed' | 'effect';
+	/** Name given to the node, if any */
+	name: string | undefined;
+	/** Flags of the node */
+	flags: NodeFlag[];
+}
+
+export interface GraphEdge {
+	/** Identifier of the source node */
+	source: number;
+	/** Identifier of the node observing the source */
+	observer: number;
+}
+
+export interface Graph {
+	nodes: GraphNodeInfo[];
+	edges: GraphEdge[];
+}
+
+export interface TraceEvent {
+	/**
+	 * - `write` when a signal has been written to
+	 * - `compute` when a computed signal is recomputing
+	 * - `effect` when an effect is rerunning
+	 */
+	type: 'write' | 'compute' | 'effect';
+	/** Node that is being written to, recomputed or rerun */
+	node: GraphNode;
+	/** Sources whose writes caused the recomputation or the rerun */
+	causes: Signal<any>[];
+}
+
+const FLAG_NAMES: [flag: Flags, name: NodeFlag][] = [
+	[Flags.RUNNING, 'running'],
+	[Flags.DIRTY, 'dirty'],
+	[Flags.MAYBE_DIRTY, 'maybe-dirty'],
+	[Flags.TRACKING, 'tracking'],
+	[Flags.NOTIFIED, 'notified'],
+	[Flags.DISPOSED, 'disposed'],
+	[Flags.HAS_ERROR, 'errored'],
+];
+
+/**
+ * Retrieves the name given to a node
+ */
+export function getName(node: GraphNode): string | undefined {
+	return node._name;
+}
+
+/**
+ * Retrieves the signals a computed signal or an effect is currently depending on
+ */
+export function getSources(node: GraphNode): Signal<any>[] {
+	if (node instanceof Computed || node instanceof Effect) {
+		return node._dependencies.slice();
+	}
+
+	return [];
+}
+
+/**
+ * Retrieves the computed signals and effects currently depending on a signal
+ */
+export function getObservers(node: GraphNode): (Computed<any> | Effect<any>)[] {
+	const observers: (Computed<any> | Effect<any>)[] = [];
+
+	if (!(node instanceof Effect)) {
+		for (let link = node._first_dependant; link !== undefined; link = link._next) {
+			observers.push(link._target);
+		}
+	}
+
+	return observers;
+}
+
+/**
+ * Retrieves the flags of a node in readable form
+ */
+export function getFlags(node: GraphNode): NodeFlag[] {
+	const flags: NodeFlag[] = [];
+
+	if (node instanceof Computed || node instanceof Effect) {
+		const bits = node._flags;
+
+		for (let i = 0, ilen = FLAG_NAMES.length; i < ilen; i++) {
+			const [flag, name] = FLAG_NAMES[i];
+
+			if (bits & flag) {
+				flags.push(name);
+			}
+		}
+	}
+
+	return flags;
+}
+
+/**
+ * Collects every node reachable from the given nodes, in either direction
+ */
+export function getGraph(...roots: GraphNode[]): Graph {
+	const ids = new Map<GraphNode, number>();
+	const queue: GraphNode[] = [];
+
+	const nodes: GraphNodeInfo[] = [];
+	const edges: GraphEdge[] = [];
+
+	const visit = (node: GraphNode): number => {
+		let id = ids.get(node);
+
+		if (id === undefined) {
+			ids.set(node, id = ids.size);
+			queue.push(node);
+		}
+
+		return id;
+	};
+
+	for (let i = 0, ilen = roots.length; i < ilen; i++) {
+		visit(roots[i]);
+	}
+
+	// Edges are only recorded while looking at the sources, observers only get
+	// visited so that their own sources get looked at.
+	for (let i = 0; i < queue.length; i++) {
+		const node = queue[i];
+		const id = ids.get(node)!;
+
+		const sources = getSources(node);
+		const observers = getObservers(node);
+
+		nodes.push({
+			id: id,
+			type: node instanceof Effect ? 'effect' : node instanceof Computed ? 'computed' : 'signal',
+			name: node._name,
+			flags: getFlags(node),
+		});
+
+		for (let j = 0, jlen = sources.length; j < jlen; j++) {
+			edges.push({ source: visit(sources[j]), observer: id });
+		}
+
+		for (let j = 0, jlen = observers.length; j < jlen; j++) {
+			visit(observers[j]);
+		}
+	}
+
+	return { nodes, edges };
+}
+
+/**
+ * Serializes a graph into Graphviz DOT format
+ */
+export function graphToDot(graph: Graph): string {
+	let dot = `digraph {\n`;
+
+	for (const node of graph.nodes) {
+		const label = (node.name ?? `<anonymous>`) +
+			(node.flags.length > 0 ? `\n[${node.flags.join(', ')}]` : ``);
+		const shape = node.type === 'effect' ? 'box' : node.type === 'computed' ? 'ellipse' : 'diamond';
+
+		dot += `\t${node.id} [label=${JSON.stringify(label)}, shape=${shape}];\n`;
+	}
+
+	for (const edge of graph.edges) {
+		dot += `\t${edge.source} -> ${edge.observer};\n`;
+	}
+
+	return dot + `}\n`;
+}
+
+/** listeners registered through `trace()`, all sharing the same trace hook */
+const trace_listeners = /*#__PURE__*/ new Set<(event: TraceEvent) => void>();
+
+function run_trace_listeners(type: TraceEvent['type'], node: GraphNode, prev_epoch: number): void {
+	const causes: Signal<any>[] = [];
+
+	if (type !== 'write') {
+		const sources = getSources(node);
+
+		for (let i = 0, ilen = sources.length; i < ilen; i++) {
+			const source = sources[i];
+
+			if (source._epoch > prev_epoch) {
+				causes.push(source);
+			}
+		}
+	}
+
+	for (const listener of trace_listeners) {
+		listener({ type, node, causes });
+	}
+}
+
+/**
+ * Listens for signal writes, recomputations and effect runs.
+ * @param listener Function receiving the trace events
+ * @returns Function to stop listening
+ */
+export function trace(listener: (event: TraceEvent) => void): () => void {
+	// Wrapped so that the same function can be passed in more than once.
+	const fn = (event: TraceEvent) => listener(event);
+
+	if (trace_listeners.size === 0) {
+		set_trace_hook(run_trace_listeners);
+	}
+
+	trace_listeners.add(fn);
+
+	return () => {
+		if (trace_listeners.delete(fn) && trace_listeners.size === 0) {
+			set_trace_hook(undefined);
+		}
+	};
+}
+
+/**
+ * Logs signal writes, recomputations and effect runs to the console
+ * @returns Function to stop logging
+ */
+export function logTrace(): () => void {
+	return trace(({ type, node, causes }) => {
+		const name = node._name ?? `<anonymous>`;
+
+		if (type === 'write') {
+			console.log(`[signals] write ${name}`);
+		} else {
+			const names = causes.map((source) => source._name ?? `<anonymous>`).join(', ');
+			console.log(`[signals] ${type} ${name} caused by ${names || `<unknown>`}`);
+		}
+	});
+}
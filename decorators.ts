@@ -0,0 +1,72 @@
+/**
+ * @module
+ * Standard decorators for declaring reactive state on classes.
+ */
+
+import { batch, computed, type ReadonlySignal, root, type Signal, signal } from './mod.ts';
+
+/**
+ * Backs an accessor field with a signal, reading the field tracks it as a
+ * dependency and writing to it notifies its dependants.
+ */
+export function state<This, T>(
+	target: ClassAccessorDecoratorTarget<This, T>,
+	context: ClassAccessorDecoratorContext<This, T>,
+): ClassAccessorDecoratorResult<This, T> {
+	// The field's own storage holds the signal rather than the value.
+	const get_signal = target.get as unknown as (this: This) => Signal<T>;
+	const name = String(context.name);
+
+	return {
+		get() {
+			return get_signal.call(this).value;
+		},
+		set(value) {
+			get_signal.call(this).value = value;
+		},
+		init(value) {
+			return signal(value, { name }) as unknown as T;
+		},
+	};
+}
+
+/**
+ * Memoizes a getter with a computed signal, created the first time the getter
+ * is accessed on an instance.
+ */
+export function derived<This extends object, T>(
+	target: (this: This) => T,
+	context: ClassGetterDecoratorContext<This, T>,
+): (this: This) => T {
+	const computeds = new WeakMap<This, ReadonlySignal<T>>();
+	const name = String(context.name);
+
+	return function (this: This) {
+		let derivation = computeds.get(this);
+
+		if (derivation === undefined) {
+			// Kept for as long as the instance is around, regardless of where the
+			// getter happened to be accessed first.
+			derivation = root(() => computed(() => target.call(this), undefined, { name }));
+			computeds.set(this, derivation);
+		}
+
+		return derivation.value;
+	};
+}
+
+/**
+ * Runs the method inside of a batch, writes made by it only notify dependants
+ * once the method returns.
+ */
+export function action<This, Args extends unknown[], R>(
+	target: (this: This, ...args: Args) => R,
+	_context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => R>,
+): (this: This, ...args: Args) => R {
+	return function (this: This, ...args: Args) {
+		let result!: R;
+		batch(() => result = target.apply(this, args));
+
+		return result;
+	};
+}
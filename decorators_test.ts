@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+
+import { action, derived, state } from './decorators.ts';
+import { effect, signal } from './mod.ts';
+
+class Counter {
+	@state
+	accessor count = 0;
+
+	@state
+	accessor step = 1;
+
+	computations = 0;
+
+	@derived
+	get doubled(): number {
+		this.computations++;
+		return this.count * 2;
+	}
+
+	@action
+	increment(): number {
+		this.count += this.step;
+		this.count += this.step;
+
+		return this.count;
+	}
+}
+
+Deno.test('@state tracks reads and notifies on writes', () => {
+	const counter = new Counter();
+	const log: number[] = [];
+
+	const dispose = effect(() => {
+		log.push(counter.count);
+	});
+
+	counter.count = 1;
+	counter.count = 1;
+	counter.count = 2;
+
+	assert.deepEqual(log, [0, 1, 2]);
+
+	dispose();
+});
+
+Deno.test('@state is kept per instance', () => {
+	const a = new Counter();
+	const b = new Counter();
+
+	a.count = 5;
+
+	assert.equal(a.count, 5);
+	assert.equal(b.count, 0);
+});
+
+Deno.test('@derived memoizes the getter', () => {
+	const counter = new Counter();
+
+	assert.equal(counter.doubled, 0);
+	assert.equal(counter.doubled, 0);
+	assert.equal(counter.computations, 1);
+
+	counter.step = 2;
+	assert.equal(counter.doubled, 0);
+	assert.equal(counter.computations, 1);
+
+	counter.count = 3;
+	assert.equal(counter.doubled, 6);
+	assert.equal(counter.computations, 2);
+});
+
+Deno.test('@derived is kept per instance', () => {
+	const a = new Counter();
+	const b = new Counter();
+
+	a.count = 2;
+
+	assert.equal(a.doubled, 4);
+	assert.equal(b.doubled, 0);
+});
+
+Deno.test('@derived outlives the effect that first accessed it', () => {
+	const counter = new Counter();
+	const rerun = signal(0);
+
+	const dispose = effect(() => {
+		rerun.value;
+		counter.doubled;
+	});
+
+	rerun.value = 1;
+	counter.count = 4;
+
+	assert.equal(counter.doubled, 8);
+
+	dispose();
+
+	counter.count = 5;
+	assert.equal(counter.doubled, 10);
+});
+
+Deno.test('@action batches the writes made by the method', () => {
+	const counter = new Counter();
+	const log: number[] = [];
+
+	const dispose = effect(() => {
+		log.push(counter.count);
+	});
+
+	assert.equal(counter.increment(), 2);
+	assert.deepEqual(log, [0, 2]);
+
+	dispose();
+});
+
+Deno.test('@action keeps the receiver and rethrows errors', () => {
+	class Failing {
+		@state
+		accessor value = 0;
+
+		@action
+		fail(): void {
+			this.value = 1;
+			throw new Error('failed');
+		}
+	}
+
+	const instance = new Failing();
+
+	assert.throws(() => instance.fail(), { message: 'failed' });
+	assert.equal(instance.value, 1);
+});
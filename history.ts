@@ -0,0 +1,239 @@
+/**
+ * @module
+ * Undo and redo history for signals and reactive proxies.
+ */
+
+import {
+	batch,
+	cleanup,
+	computed,
+	type DisposeFunction,
+	effect,
+	effectScope,
+	type ReadonlySignal,
+	Signal,
+	signal,
+} from './mod.ts';
+import { is_held_by, listen_writes, shallowReactive, type StoreWrite, unwrap } from './store.ts';
+
+interface HistoryEntry {
+	_undo: () => void;
+	_redo: () => void;
+}
+
+export interface HistoryOptions {
+	/** Maximum amount of entries to keep, defaults to no limit */
+	limit?: number;
+}
+
+function apply_write(write: StoreWrite, undo: boolean): void {
+	const target = write._target;
+	const proxy: any = shallowReactive(target);
+	const key: any = write._key;
+	const has = undo ? write._had : write._has;
+	const value = undo ? write._prev : write._next;
+
+	const is_map = target instanceof Map || target instanceof WeakMap;
+	const is_set = target instanceof Set || target instanceof WeakSet;
+
+	if (!has) {
+		if (is_map || is_set) {
+			proxy.delete(key);
+		} else {
+			delete proxy[key];
+		}
+	} else if (is_map) {
+		proxy.set(key, value);
+	} else if (is_set) {
+		proxy.add(key);
+	} else {
+		proxy[key] = value;
+	}
+}
+
+export class History {
+	/** @internal Entries that can be undone, latest entry is last */
+	_undo_stack: HistoryEntry[] = [];
+	/** @internal Entries that can be redone, latest undone entry is last */
+	_redo_stack: HistoryEntry[] = [];
+	/** @internal Maximum amount of entries */
+	_limit: number;
+	/** @internal Whether we're undoing or redoing an entry */
+	_applying = false;
+
+	/** @internal Written to whenever the stacks change */
+	_version: Signal<void>;
+	/** @internal */
+	_can_undo: ReadonlySignal<boolean>;
+	/** @internal */
+	_can_redo: ReadonlySignal<boolean>;
+
+	/** @internal Stops recording */
+	_dispose: DisposeFunction;
+
+	constructor(target: Signal<any> | object, limit: number) {
+		const version = this._version = signal<void>(undefined, { equals: false });
+
+		this._limit = limit;
+		this._can_undo = computed(() => (version.value, this._undo_stack.length > 0));
+		this._can_redo = computed(() => (version.value, this._redo_stack.length > 0));
+
+		this._dispose = target instanceof Signal ? this._record_signal(target) : this._record_store(target);
+	}
+
+	/** @internal */
+	_record_signal(target: Signal<any>): DisposeFunction {
+		let current = target.peek();
+
+		// Effects only run once the batch is over, so the signal's value at that
+		// point is what's recorded as the entry.
+		return effect(() => {
+			const next = target.value;
+			const prev = current;
+
+			if (next !== prev) {
+				current = next;
+
+				this._push({
+					_undo: () => target.value = current = prev,
+					_redo: () => target.value = current = next,
+				});
+			}
+		});
+	}
+
+	/** @internal */
+	_record_store(target: object): DisposeFunction {
+		const root = unwrap(target);
+		const queued = signal<void>(undefined);
+
+		let pending: StoreWrite[] = [];
+
+		return effectScope(() => {
+			cleanup(listen_writes((write) => {
+				if (!this._applying && is_held_by(root, write._target)) {
+					pending.push(write);
+
+					// Writes through a proxy are always made inside of a batch, this
+					// queues up the effect below to run after the batch is over.
+					if (pending.length === 1) {
+						queued.notify();
+					}
+				}
+			}));
+
+			effect(() => {
+				queued.value;
+
+				if (pending.length > 0) {
+					const writes = pending;
+					pending = [];
+
+					this._push({
+						_undo: () => {
+							for (let i = writes.length - 1; i >= 0; i--) {
+								apply_write(writes[i], true);
+							}
+						},
+						_redo: () => {
+							for (let i = 0, ilen = writes.length; i < ilen; i++) {
+								apply_write(writes[i], false);
+							}
+						},
+					});
+				}
+			});
+		});
+	}
+
+	/** @internal */
+	_push(entry: HistoryEntry): void {
+		const undo_stack = this._undo_stack;
+
+		undo_stack.push(entry);
+		this._redo_stack.length = 0;
+
+		if (undo_stack.length > this._limit) {
+			undo_stack.shift();
+		}
+
+		this._version.notify();
+	}
+
+	/** @internal */
+	_apply(entry: HistoryEntry, undo: boolean): void {
+		this._applying = true;
+
+		try {
+			batch(undo ? entry._undo : entry._redo);
+		} finally {
+			this._applying = false;
+		}
+	}
+
+	/**
+	 * Whether there's an entry that can be undone.
+	 */
+	get canUndo(): boolean {
+		return this._can_undo.value;
+	}
+
+	/**
+	 * Whether there's an entry that can be redone.
+	 */
+	get canRedo(): boolean {
+		return this._can_redo.value;
+	}
+
+	/**
+	 * Reverts the latest entry.
+	 */
+	undo(): void {
+		const entry = this._undo_stack.pop();
+
+		if (entry !== undefined) {
+			this._apply(entry, true);
+			this._redo_stack.push(entry);
+			this._version.notify();
+		}
+	}
+
+	/**
+	 * Reapplies the latest reverted entry.
+	 */
+	redo(): void {
+		const entry = this._redo_stack.pop();
+
+		if (entry !== undefined) {
+			this._apply(entry, false);
+			this._undo_stack.push(entry);
+			this._version.notify();
+		}
+	}
+
+	/**
+	 * Removes every entry.
+	 */
+	clear(): void {
+		this._undo_stack.length = 0;
+		this._redo_stack.length = 0;
+		this._version.notify();
+	}
+
+	/**
+	 * Stops recording changes.
+	 */
+	dispose(): void {
+		this._dispose();
+	}
+}
+
+/**
+ * Records changes made to a signal or a reactive proxy, writes made inside of
+ * a batch are grouped into a single entry.
+ * @param target Signal or reactive proxy to record
+ * @param options History options
+ */
+export function history(target: Signal<any> | object, options?: HistoryOptions): History {
+	return new History(target, options?.limit ?? Infinity);
+}
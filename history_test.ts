@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+
+import { history } from './history.ts';
+import { reactive } from './store.ts';
+
+Deno.test('Records properties defined on a store', () => {
+	const store = reactive<Record<string, number>>({});
+	const entries = history(store);
+
+	Object.defineProperty(store, 'a', { value: 1, writable: true, enumerable: true, configurable: true });
+	assert.equal(entries.canUndo, true);
+
+	store.b = 2;
+
+	entries.undo();
+	assert.deepEqual(Object.entries(store), [['a', 1]]);
+
+	entries.undo();
+	assert.deepEqual(Object.entries(store), []);
+	assert.equal(entries.canUndo, false);
+
+	entries.dispose();
+});
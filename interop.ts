@@ -0,0 +1,206 @@
+/**
+ * @module
+ * Interop between signals and observables, async iterators and event targets.
+ */
+
+import { effect, fromSource, type ReadonlySignal, root, untrack } from './mod.ts';
+
+export interface Observer<T> {
+	next?(value: T): void;
+	error?(err: unknown): void;
+	complete?(): void;
+}
+
+export interface Subscription {
+	unsubscribe(): void;
+}
+
+export interface Subscribable<T> {
+	subscribe(observer: Partial<Observer<T>>): Subscription;
+}
+
+/**
+ * Observable that also implements `Symbol.observable` (or `@@observable` where
+ * that symbol doesn't exist) for interop with other observable libraries.
+ */
+export interface Observable<T> extends Subscribable<T> {
+	subscribe(observer: Partial<Observer<T>> | ((value: T) => void)): Subscription;
+}
+
+/** Key used for observable interop, falls back to the string used by RxJS */
+const OBSERVABLE_KEY: symbol | string = (Symbol as any).observable ?? '@@observable';
+
+/**
+ * Creates an observable that emits the current value of the signal upon
+ * subscribing, and the new value whenever it changes.
+ */
+export function toObservable<T>(signal: ReadonlySignal<T>): Observable<T> {
+	const observable: Observable<T> = {
+		subscribe(observer) {
+			const { next, error } = typeof observer === 'function'
+				? { next: observer, error: undefined }
+				: observer;
+
+			// Subscriptions are only disposed by unsubscribing, not by whatever
+			// effect happens to be running right now.
+			const dispose = root(() =>
+				effect(() => {
+					let value: T;
+
+					try {
+						value = signal.value;
+					} catch (err) {
+						if (error) {
+							untrack(() => error.call(observer, err));
+							return;
+						}
+
+						throw err;
+					}
+
+					if (next) {
+						untrack(() => next.call(observer, value));
+					}
+				})
+			);
+
+			return { unsubscribe: dispose };
+		},
+	};
+
+	(observable as any)[OBSERVABLE_KEY] = () => observable;
+
+	return observable;
+}
+
+/**
+ * Creates a signal that holds the latest value emitted by the observable, the
+ * observable is only subscribed to while the signal is being depended on.
+ */
+export function fromObservable<T>(observable: Subscribable<T>): ReadonlySignal<T | undefined>;
+export function fromObservable<T>(observable: Subscribable<T>, value: T): ReadonlySignal<T>;
+export function fromObservable<T>(observable: Subscribable<T>, value?: T): ReadonlySignal<T | undefined> {
+	return fromSource<T | undefined>((set) => {
+		const subscription = observable.subscribe({ next: set });
+		return () => subscription.unsubscribe();
+	}, value);
+}
+
+/**
+ * Creates an async iterator that yields the value of the signal whenever it
+ * changes, the current value isn't yielded. Breaking out of the loop stops
+ * listening for changes.
+ */
+export function changes<T>(signal: ReadonlySignal<T>): AsyncIterableIterator<T> {
+	const queue: T[] = [];
+
+	let pending: { resolve: (result: IteratorResult<T>) => void; reject: (err: unknown) => void } | undefined;
+	let initialized = false;
+	let done = false;
+	let error: unknown;
+	let has_error = false;
+
+	const finish = () => {
+		if (!done) {
+			done = true;
+
+			// This could be called during the first run of the effect.
+			queueMicrotask(() => dispose());
+		}
+	};
+
+	const dispose = root(() =>
+		effect(() => {
+			let value: T;
+
+			try {
+				value = signal.value;
+			} catch (err) {
+				if (pending) {
+					pending.reject(err);
+					pending = undefined;
+				} else {
+					has_error = true;
+					error = err;
+				}
+
+				finish();
+				return;
+			}
+
+			if (!initialized) {
+				initialized = true;
+			} else if (pending) {
+				pending.resolve({ value, done: false });
+				pending = undefined;
+			} else {
+				queue.push(value);
+			}
+		})
+	);
+
+	const iterator: AsyncIterableIterator<T> = {
+		next() {
+			if (queue.length > 0) {
+				return Promise.resolve({ value: queue.shift()!, done: false });
+			}
+
+			if (has_error) {
+				has_error = false;
+				return Promise.reject(error);
+			}
+
+			if (done) {
+				return Promise.resolve({ value: undefined, done: true });
+			}
+
+			return new Promise((resolve, reject) => pending = { resolve, reject });
+		},
+		return() {
+			queue.length = 0;
+			finish();
+
+			if (pending) {
+				pending.resolve({ value: undefined, done: true });
+				pending = undefined;
+			}
+
+			return Promise.resolve({ value: undefined, done: true });
+		},
+		[Symbol.asyncIterator]() {
+			return iterator;
+		},
+	};
+
+	return iterator;
+}
+
+/**
+ * Creates a signal that holds the latest event dispatched by the event target,
+ * mapped with the given function. The event listener is only attached while
+ * the signal is being depended on.
+ */
+export function fromEvent<E extends Event, T>(
+	target: EventTarget,
+	type: string,
+	map: (event: E) => T,
+): ReadonlySignal<T | undefined>;
+export function fromEvent<E extends Event, T>(
+	target: EventTarget,
+	type: string,
+	map: (event: E) => T,
+	value: T,
+): ReadonlySignal<T>;
+export function fromEvent<E extends Event, T>(
+	target: EventTarget,
+	type: string,
+	map: (event: E) => T,
+	value?: T,
+): ReadonlySignal<T | undefined> {
+	return fromSource<T | undefined>((set) => {
+		const listener = (event: Event) => set(map(event as E));
+
+		target.addEventListener(type, listener);
+		return () => target.removeEventListener(type, listener);
+	}, value);
+}
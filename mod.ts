@@ -1,4 +1,5 @@
-const enum Flags {
+/** @internal */
+export const enum Flags {
 	RUNNING = 1 << 0,
 	DIRTY = 1 << 1,
 	MAYBE_DIRTY = 1 << 2,
@@ -8,22 +9,86 @@ const enum Flags {
 	HAS_ERROR = 1 << 6,
 }
 
+const enum Phase {
+	PRE = 0,
+	DEFAULT = 1,
+	POST = 2,
+}
+
 type Computation = Computed<any> | Effect<any>;
 
+/**
+ * @internal
+ * Subscription of a computation to a signal, signals keep track of their
+ * dependants through a doubly-linked list of these.
+ */
+export interface Link {
+	_target: Computation;
+	_prev: Link | undefined;
+	_next: Link | undefined;
+}
+
+type Owner = Effect<any> | Scope;
+type Owned = Computed<any> | Effect<any> | Scope;
+
 /** @internal currently evaluating listener */
 export let eval_listener: Computation | undefined;
+/** @internal currently active owner, new computations gets attached to it */
+export let eval_owner: Owner | undefined;
 
 /** pointer for checking existing dependencies in a context */
 let eval_sources_index: number = 0;
 /** array of new dependencies to said context */
 let eval_untracked_sources: Signal[] | undefined;
 
-/** effect scheduled for batching */
-let batched_effect: Effect<any> | undefined;
+/**
+ * effects scheduled for batching, each phase is queued by a linked list that
+ * starts here and are ran in the order they were notified.
+ */
+const batched_effects: (Effect<any> | undefined)[] = [undefined, undefined, undefined];
+/** last effect queued on each of the phases */
+const batched_effects_tail: (Effect<any> | undefined)[] = [undefined, undefined, undefined];
 /** current batch depth */
 let batch_depth: number = 0;
 /** current batch iteration */
 let batch_iteration: number = 0;
+/** maximum amount of batch iterations before it's considered to be a cycle */
+let max_batch_iterations: number = 100;
+/** whether to check for effects writing to signals it has read */
+let check_self_writes = false;
+
+/** @internal hook called on signal writes, recomputations and effect runs */
+export let trace_hook: TraceHook | undefined;
+
+/**
+ * @internal
+ * Hook receiving the node along with its previous epoch, sources with a newer
+ * epoch than that are the ones that caused a recomputation or an effect run.
+ */
+export type TraceHook = (
+	type: 'write' | 'compute' | 'effect',
+	node: Signal<any> | Effect<any>,
+	prev_epoch: number,
+) => void;
+
+/** @internal */
+export function set_trace_hook(hook: TraceHook | undefined): void {
+	trace_hook = hook;
+}
+
+/** global handler for errors that aren't caught by an error boundary */
+let error_handler: ErrorHandler | undefined;
+/** whether to throw an `AggregateError` when multiple errors are thrown */
+let aggregate_errors = false;
+
+/** scheduler used to defer running batched effects, runs them right away if unset */
+let scheduler: Scheduler | undefined;
+/** whether the scheduler has been asked to flush */
+let is_flush_scheduled = false;
+/** whether we're forcing batched effects to be ran now */
+let is_flushing = false;
+/** pending `tick()` promises waiting for the batched effects to be ran */
+let tick_resolvers: (() => void)[] = [];
 
 /**
  * Writing to a signal ticks this write clock forward and stores the new epoch
@@ -53,14 +118,32 @@ function end_batch(): void {
 		return;
 	}
 
-	let error: unknown;
-	let has_error = false;
+	if (scheduler !== undefined && !is_flushing && has_batched_effects()) {
+		// Leave the batched effects as-is, they'll be ran once the scheduler calls
+		// for it to be flushed.
+		batch_depth--;
 
-	while (batched_effect !== undefined) {
-		let effect: Effect | undefined = batched_effect;
-		batched_effect = undefined;
+		if (!is_flush_scheduled) {
+			is_flush_scheduled = true;
+			scheduler(flush_scheduled);
+		}
 
-		batch_iteration++;
+		return;
+	}
+
+	let errors: unknown[] | undefined;
+	let phase: number;
+
+	// Drain the earliest phase that has effects queued, going back to the start
+	// after every pass since running effects can queue more effects.
+	while ((phase = next_batched_phase()) !== -1) {
+		if (++batch_iteration > max_batch_iterations) {
+			errors = report_error(errors, undefined, create_cycle_error());
+			break;
+		}
+
+		let effect: Effect | undefined = batched_effects[phase];
+		batched_effects[phase] = batched_effects_tail[phase] = undefined;
 
 		while (effect !== undefined) {
 			const next: Effect | undefined = effect._next_batched_effect;
@@ -71,10 +154,7 @@ function end_batch(): void {
 				try {
 					effect._refresh();
 				} catch (err) {
-					if (!has_error) {
-						has_error = true;
-						error = err;
-					}
+					errors = report_error(errors, effect._owner, err);
 				}
 			}
 
@@ -85,9 +165,94 @@ function end_batch(): void {
 	batch_iteration = 0;
 	batch_depth--;
 
-	if (has_error) {
-		throw error;
+	if (tick_resolvers.length > 0) {
+		const resolvers = tick_resolvers;
+		tick_resolvers = [];
+
+		for (let i = 0, ilen = resolvers.length; i < ilen; i++) {
+			(0, resolvers[i])();
+		}
+	}
+
+	if (errors !== undefined) {
+		throw_errors(errors);
+	}
+}
+
+function create_cycle_error(): CycleError {
+	const effects: Effect<any>[] = [];
+	const signals: Signal<any>[] = [];
+
+	// Pull out every effect that's still queued, these are the ones that are
+	// repeatedly being notified, along with the signals that notified them.
+	for (let phase = Phase.PRE; phase <= Phase.POST; phase++) {
+		let effect: Effect | undefined = batched_effects[phase];
+		batched_effects[phase] = batched_effects_tail[phase] = undefined;
+
+		while (effect !== undefined) {
+			const next: Effect | undefined = effect._next_batched_effect;
+			const dependencies = effect._dependencies;
+
+			effect._flags &= ~Flags.NOTIFIED;
+			effect._next_batched_effect = undefined;
+
+			if (!(effect._flags & Flags.DISPOSED)) {
+				effects.push(effect);
+
+				for (let i = 0, ilen = dependencies.length; i < ilen; i++) {
+					const dep = dependencies[i];
+
+					if (dep._epoch > effect._epoch && !signals.includes(dep)) {
+						signals.push(dep);
+					}
+				}
+			}
+
+			effect = next;
+		}
+	}
+
+	return new CycleError(
+		`Cycle detected: effects are still being notified after ${max_batch_iterations} iterations` +
+			` (effects: ${effects.map(get_label).join(', ')}; signals: ${signals.map(get_label).join(', ')})`,
+		effects,
+		signals,
+	);
+}
+
+function get_label(node: Signal<any> | Effect<any>): string {
+	return node._name ?? `<anonymous>`;
+}
+
+function has_read_source(listener: Computation, source: Signal): boolean {
+	const dependencies = listener._dependencies;
+
+	for (let i = 0; i < eval_sources_index; i++) {
+		if (dependencies[i] === source) {
+			return true;
+		}
 	}
+
+	return eval_untracked_sources !== undefined && eval_untracked_sources.includes(source);
+}
+
+function next_batched_phase(): number {
+	for (let phase = Phase.PRE; phase <= Phase.POST; phase++) {
+		if (batched_effects[phase] !== undefined) {
+			return phase;
+		}
+	}
+
+	return -1;
+}
+
+function has_batched_effects(): boolean {
+	return next_batched_phase() !== -1;
+}
+
+function flush_scheduled(): void {
+	is_flush_scheduled = false;
+	flush();
 }
 
 function is_stale(target: Computation, flags: number): boolean {
@@ -97,7 +262,9 @@ function is_stale(target: Computation, flags: number): boolean {
 		return true;
 	}
 
-	if (flags & Flags.MAYBE_DIRTY) {
+	// Computations that aren't tracking won't get notified of changes, so the
+	// dependencies always need to be checked.
+	if (flags & Flags.MAYBE_DIRTY || !(flags & Flags.TRACKING)) {
 		for (let i = 0, ilen = dependencies.length; i < ilen; i++) {
 			const source = dependencies[i];
 
@@ -111,96 +278,255 @@ function is_stale(target: Computation, flags: number): boolean {
 }
 
 function cleanup_context(): void {
-	let dependencies = eval_listener!._dependencies;
+	const listener = eval_listener!;
+	const links = listener._links;
+	const is_tracking = listener._flags & Flags.TRACKING;
 
-	if (eval_untracked_sources) {
-		// We have new dependencies, so let's unsubscribe from stale dependencies.
-		prune_context_sources();
+	let dependencies = listener._dependencies;
 
-		if (eval_sources_index > 0) {
-			// We have existing dependencies still depended on, so let's expand the
-			// existing array to make room for our new dependencies.
-			const ilen = eval_untracked_sources.length;
+	if (eval_sources_index < dependencies.length) {
+		// The index pointer isn't pointing to the end of the array, anything after
+		// it is no longer being depended on, so let's unsubscribe from them.
+		if (is_tracking) {
+			for (let i = eval_sources_index, ilen = dependencies.length; i < ilen; i++) {
+				const dep = dependencies[i];
+				dep._unsubscribe(links[i]);
+			}
 
-			dependencies.length = eval_sources_index + ilen;
+			links.length = eval_sources_index;
+		}
 
-			// Override anything after the pointer with our new dependencies, this is
-			// fine since we're no longer subscribed to them.
-			for (let i = 0; i < ilen; i++) {
-				dependencies[eval_sources_index + i] = eval_untracked_sources[i];
+		dependencies.length = eval_sources_index;
+	}
+
+	if (eval_untracked_sources) {
+		if (eval_sources_index > 0) {
+			// We have existing dependencies still depended on, so let's append our
+			// new dependencies to it.
+			for (let i = 0, ilen = eval_untracked_sources.length; i < ilen; i++) {
+				dependencies.push(eval_untracked_sources[i]);
 			}
 		} else {
 			// There isn't any existing dependencies, so just replace the existing
 			// array with the new one.
-			dependencies = eval_listener!._dependencies = eval_untracked_sources;
+			dependencies = listener._dependencies = eval_untracked_sources;
 		}
 
 		// Now we subscribe to the new dependencies, but only if we're currently
 		// configured as tracking.
-		if (eval_listener!._flags & Flags.TRACKING) {
+		if (is_tracking) {
 			for (let i = eval_sources_index, ilen = dependencies.length; i < ilen; i++) {
 				const dep = dependencies[i];
-
-				dep._subscribe(eval_listener!);
+				links.push(dep._subscribe(listener));
 			}
 		}
-	} else if (eval_sources_index < eval_listener!._dependencies.length) {
-		// We don't have new dependencies, but the index pointer isn't pointing to
-		// the end of the array, so we need to clean up the rest.
-		prune_context_sources();
-		dependencies.length = eval_sources_index;
 	}
 }
 
-function prune_context_sources(): void {
-	const dependencies = eval_listener!._dependencies;
+function attach_owned(node: Owned): void {
+	const owner = eval_owner;
 
-	for (let i = 0, ilen = dependencies.length; i < ilen; i++) {
-		const dep = dependencies[i];
-		dep._unsubscribe(eval_listener!);
+	if (owner !== undefined) {
+		node._owner = owner;
+		owner._children.push(node);
 	}
 }
 
-function cleanup_effect(effect: Effect<any>): void {
-	const cleanups = effect._cleanups;
-	if (cleanups.length > 0) {
+function detach_owned(node: Owned): void {
+	const owner = node._owner;
+
+	if (owner !== undefined) {
+		const children = owner._children;
+		const index = children.indexOf(node);
+
+		node._owner = undefined;
+
+		// The owner might be in the middle of disposing its children.
+		if (index !== -1) {
+			children.splice(index, 1);
+		}
+	}
+}
+
+function cleanup_owner(owner: Owner): void {
+	const children = owner._children;
+	const cleanups = owner._cleanups;
+
+	if (children.length > 0 || cleanups.length > 0) {
 		const prev_listener = eval_listener;
+		const prev_owner = eval_owner;
+
+		let errors: unknown[] | undefined;
+		let has_error = false;
 
 		/*#__INLINE__*/ start_batch();
 		eval_listener = undefined;
+		eval_owner = undefined;
+
+		// Children gets disposed first in the order they were created, followed by
+		// the cleanup functions in the order they were registered. A throwing
+		// cleanup shouldn't prevent the rest from running.
+		owner._children = [];
+		owner._cleanups = [];
+
+		for (let i = 0, ilen = children.length; i < ilen; i++) {
+			try {
+				children[i]._dispose();
+			} catch (err) {
+				has_error = true;
+				errors = report_error(errors, owner, err);
+			}
+		}
 
-		try {
-			for (let i = 0, ilen = cleanups.length; i < ilen; i++) {
+		for (let i = 0, ilen = cleanups.length; i < ilen; i++) {
+			try {
 				(0, cleanups[i])();
+			} catch (err) {
+				has_error = true;
+				errors = report_error(errors, owner, err);
 			}
-		} catch (err) {
-			// Failed to clean, so let's dispose of this effect.
-			effect._flags = (effect._flags & ~Flags.RUNNING) | Flags.DISPOSED;
-			dispose_effect(effect, false);
+		}
 
-			throw err;
-		} finally {
-			cleanups.length = 0;
+		eval_listener = prev_listener;
+		eval_owner = prev_owner;
 
-			eval_listener = prev_listener;
+		if (has_error && !(owner._flags & Flags.DISPOSED)) {
+			// Failed to clean, so let's dispose of this owner.
+			owner._flags = (owner._flags & ~Flags.RUNNING) | Flags.DISPOSED;
 
-			end_batch();
+			if (owner instanceof Effect) {
+				dispose_effect(owner, false);
+			} else {
+				dispose_scope(owner);
+			}
+		}
+
+		end_batch();
+
+		if (errors !== undefined) {
+			throw_errors(errors);
 		}
 	}
 }
 
 function dispose_effect(effect: Effect<any>, run_cleanup: boolean): void {
 	const dependencies = effect._dependencies;
+	const links = effect._links;
 
 	for (let i = 0, ilen = dependencies.length; i < ilen; i++) {
 		const dep = dependencies[i];
-		dep._unsubscribe(effect);
+		dep._unsubscribe(links[i]);
 	}
 
 	dependencies.length = 0;
+	links.length = 0;
 
-	if (run_cleanup) {
-		cleanup_effect(effect);
+	try {
+		if (run_cleanup) {
+			cleanup_owner(effect);
+		}
+	} finally {
+		// Detach only after cleaning up so errors can still find their boundary.
+		detach_owned(effect);
+	}
+}
+
+function dispose_scope(scope: Scope): void {
+	try {
+		cleanup_owner(scope);
+	} finally {
+		detach_owned(scope);
+	}
+}
+
+/**
+ * Routes the error to the nearest error boundary starting from the owner, or
+ * to the global error handler, rethrows if there's nothing to handle it.
+ */
+function handle_error(owner: Owner | undefined, err: unknown): void {
+	for (; owner !== undefined; owner = owner._owner) {
+		if (owner instanceof Scope && owner._handler !== undefined) {
+			try {
+				(0, owner._handler)(err);
+				return;
+			} catch (next) {
+				// Handler couldn't deal with it, pass it on to the next boundary.
+				err = next;
+			}
+		}
+	}
+
+	if (error_handler === undefined) {
+		throw err;
+	}
+
+	error_handler(err);
+}
+
+function report_error(
+	errors: unknown[] | undefined,
+	owner: Owner | undefined,
+	err: unknown,
+): unknown[] | undefined {
+	try {
+		handle_error(owner, err);
+	} catch (unhandled) {
+		(errors ||= []).push(unhandled);
+	}
+
+	return errors;
+}
+
+function throw_errors(errors: unknown[]): void {
+	if (errors.length > 1 && aggregate_errors) {
+		throw new AggregateError(errors, `Multiple errors were thrown`);
+	}
+
+	throw errors[0];
+}
+
+/**
+ * Comparator used to check whether two values are equal, equal values won't
+ * cause dependants to be notified.
+ */
+export type EqualsFunction<T> = (prev: T, next: T) => boolean;
+
+export interface SignalOptions<T> {
+	/**
+	 * Comparator used to check whether the value has changed, or `false` to
+	 * always notify dependants. Defaults to strict equality.
+	 */
+	equals?: EqualsFunction<T> | false;
+	/**
+	 * Name used to identify this signal when debugging.
+	 */
+	name?: string;
+	/**
+	 * Called once the signal gains its first dependant.
+	 */
+	watched?: () => void;
+	/**
+	 * Called once the signal loses its last dependant.
+	 */
+	unwatched?: () => void;
+}
+
+function is_equal<T>(equals: EqualsFunction<T> | false | undefined, prev: T, next: T): boolean {
+	return equals === undefined ? prev === next : equals !== false && equals(prev, next);
+}
+
+function run_lifecycle_hook(hook: () => void): void {
+	const prev_listener = eval_listener;
+	const prev_owner = eval_owner;
+
+	eval_listener = undefined;
+	eval_owner = undefined;
+
+	try {
+		hook();
+	} finally {
+		eval_listener = prev_listener;
+		eval_owner = prev_owner;
 	}
 }
 
@@ -209,14 +535,29 @@ export class Signal<T = unknown> {
 	_epoch = -1;
 	/** @internal Stored time of the read clock, used to detect dupe-reads */
 	_access_epoch = -1;
-	/** @internal Contexts depending on it */
-	_dependants: Computation[] = [];
+	/** @internal First context depending on it */
+	_first_dependant: Link | undefined;
+	/** @internal Last context depending on it */
+	_last_dependant: Link | undefined;
 
 	/** @internal stored value */
 	_value: T;
+	/** @internal equality comparator */
+	_equals: EqualsFunction<any> | false | undefined;
+
+	/** @internal name used for debugging */
+	_name: string | undefined;
+	/** @internal called when gaining its first dependant */
+	_watched: (() => void) | undefined;
+	/** @internal called when losing its last dependant */
+	_unwatched: (() => void) | undefined;
 
-	constructor(value: T) {
+	constructor(value: T, options?: SignalOptions<T>) {
 		this._value = value;
+		this._equals = options?.equals;
+		this._name = options?.name;
+		this._watched = options?.watched;
+		this._unwatched = options?.unwatched;
 	}
 
 	/**
@@ -233,16 +574,47 @@ export class Signal<T = unknown> {
 	}
 
 	/** @internal */
-	_subscribe(target: Computation): void {
-		this._dependants.push(target);
+	_subscribe(target: Computation): Link {
+		const last = this._last_dependant;
+		const link: Link = { _target: target, _prev: last, _next: undefined };
+
+		if (last !== undefined) {
+			last._next = link;
+		} else {
+			this._first_dependant = link;
+		}
+
+		this._last_dependant = link;
+
+		if (last === undefined && this._watched !== undefined) {
+			run_lifecycle_hook(this._watched);
+		}
+
+		return link;
 	}
 
 	/** @internal */
-	_unsubscribe(target: Computation): void {
-		const dependants = this._dependants;
-		const index = dependants.indexOf(target);
+	_unsubscribe(link: Link): void {
+		const prev = link._prev;
+		const next = link._next;
+
+		// The link's own pointers are left as-is, this way anyone iterating over
+		// the dependants can carry on even if it's been unsubscribed.
+		if (prev !== undefined) {
+			prev._next = next;
+		} else {
+			this._first_dependant = next;
+		}
+
+		if (next !== undefined) {
+			next._prev = prev;
+		} else {
+			this._last_dependant = prev;
+		}
 
-		dependants.splice(index, 1);
+		if (this._first_dependant === undefined && this._unwatched !== undefined) {
+			run_lifecycle_hook(this._unwatched);
+		}
 	}
 
 	/**
@@ -284,30 +656,69 @@ export class Signal<T = unknown> {
 		return this._value;
 	}
 	set value(next: T) {
-		if (this._value !== next) {
-			// Tick the write clock forward
-			this._epoch = ++write_clock;
-			this._value = next;
+		if (!is_equal(this._equals, this._value, next)) {
+			this._write(next);
+		}
+	}
 
-			if (batch_iteration < 100) {
-				const dependants = this._dependants;
+	/**
+	 * Sets the value to the one returned by the function.
+	 * @param fn Function receiving the current value
+	 */
+	update(fn: (value: T) => T): void {
+		this.value = fn(this.peek());
+	}
 
-				/*#__INLINE__*/ start_batch();
+	/**
+	 * Mutates the value in-place, dependants are notified regardless of whether
+	 * the value has changed.
+	 * @param fn Function receiving the current value to mutate
+	 */
+	mutate(fn: (value: T) => void): void {
+		fn(this.peek());
+		this.notify();
+	}
 
-				for (let i = 0, ilen = dependants.length; i < ilen; i++) {
-					const dep = dependants[i];
+	/**
+	 * Notifies dependants of a change even if the value is still the same, this
+	 * is useful after mutating the value in-place.
+	 */
+	notify(): void {
+		this._write(this._value);
+	}
 
-					// Source signal dependants are guaranteed to be dirty.
-					dep._notify(Flags.DIRTY);
-				}
+	/** @internal */
+	_write(next: T): void {
+		if (check_self_writes && eval_listener instanceof Effect && has_read_source(eval_listener, this)) {
+			throw new CycleError(
+				`Cycle detected: effect ${get_label(eval_listener)} wrote to signal ${get_label(this)} it has read`,
+				[eval_listener],
+				[this],
+			);
+		}
 
-				end_batch();
+		if (trace_hook !== undefined) {
+			trace_hook('write', this, this._epoch);
+		}
+
+		// Tick the write clock forward
+		this._epoch = ++write_clock;
+		this._value = next;
+
+		/*#__INLINE__*/ start_batch();
+
+		try {
+			for (let link = this._first_dependant; link !== undefined; link = link._next) {
+				// Source signal dependants are guaranteed to be dirty.
+				link._target._notify(Flags.DIRTY);
 			}
+		} finally {
+			end_batch();
 		}
 	}
 }
 
-export interface ReadonlySignal<T> extends Signal<T> {
+export interface ReadonlySignal<T> extends Omit<Signal<T>, 'value' | 'update' | 'mutate' | 'notify'> {
 	readonly value: T;
 }
 
@@ -317,6 +728,11 @@ export class Computed<T = unknown> extends Signal<T> {
 	 * Signals it's depending on
 	 */
 	_dependencies: Signal[] = [];
+	/**
+	 * @internal
+	 * Subscriptions to the signals it's depending on, only filled in if tracking
+	 */
+	_links: Link[] = [];
 	/**
 	 * @internal
 	 * Context flags
@@ -335,20 +751,28 @@ export class Computed<T = unknown> extends Signal<T> {
 	 */
 	_context_epoch = -1;
 
+	/**
+	 * @internal
+	 * Owner this computed signal is attached to
+	 */
+	_owner: Owner | undefined;
+
 	/**
 	 * @internal
 	 * Compute function used to retrieve the value for this computed signal
 	 */
 	_compute: (prev: T) => T;
 
-	constructor(compute: (prev: T) => T, initialValue: T) {
-		super(initialValue);
+	constructor(compute: (prev: T) => T, initialValue: T, options?: SignalOptions<T>) {
+		super(initialValue, options);
 
 		this._compute = compute;
+
+		attach_owned(this);
 	}
 
 	/** @internal */
-	_refresh(): boolean {
+	override _refresh(): boolean {
 		// Retrieve the current flags, make sure to unset NOTIFIED now that we're
 		// running this refresh.
 		const flags = (this._flags &= ~Flags.NOTIFIED);
@@ -364,6 +788,8 @@ export class Computed<T = unknown> extends Signal<T> {
 			return false;
 		}
 
+		const prev_realm_write_epoch = this._realm_write_epoch;
+
 		this._flags = (flags & ~Flags.DIRTY & ~Flags.MAYBE_DIRTY) | Flags.RUNNING;
 		this._realm_write_epoch = write_clock;
 
@@ -372,8 +798,13 @@ export class Computed<T = unknown> extends Signal<T> {
 			return false;
 		}
 
+		if (trace_hook !== undefined) {
+			trace_hook('compute', this, prev_realm_write_epoch);
+		}
+
 		const prev_value = this._value;
 		const prev_listener = eval_listener;
+		const prev_owner = eval_owner;
 		const prev_sources = eval_untracked_sources;
 		const prev_sources_index = eval_sources_index;
 
@@ -384,12 +815,13 @@ export class Computed<T = unknown> extends Signal<T> {
 			this._context_epoch = read_clock++;
 
 			eval_listener = this;
+			eval_owner = undefined;
 			eval_untracked_sources = undefined;
 			eval_sources_index = 0;
 
 			value = (0, this._compute)(prev_value);
 
-			if (flags & Flags.HAS_ERROR || prev_value !== value || this._epoch === -1) {
+			if (flags & Flags.HAS_ERROR || this._epoch === -1 || !is_equal(this._equals, prev_value, value)) {
 				stale = true;
 
 				this._value = value;
@@ -405,68 +837,118 @@ export class Computed<T = unknown> extends Signal<T> {
 			this._epoch = this._realm_write_epoch = ++write_clock;
 		}
 
+		// Unset RUNNING before subscribing, sources can be written to as they gain
+		// their first dependant and we'd want to be notified of that.
+		this._flags &= ~Flags.RUNNING;
+
 		cleanup_context();
 
 		eval_listener = prev_listener;
+		eval_owner = prev_owner;
 		eval_untracked_sources = prev_sources;
 		eval_sources_index = prev_sources_index;
 
-		this._flags &= ~Flags.RUNNING;
 		return stale;
 	}
 
 	/** @internal */
-	_subscribe(target: Computation): void {
-		// Subscribe to our sources now that we have someone subscribing on us
-		if (this._dependants.length < 1) {
+	_dispose(): void {
+		const flags = this._flags;
+
+		if (!(flags & Flags.DISPOSED)) {
+			const dependencies = this._dependencies;
+			const links = this._links;
+
+			// It can still be read afterwards, it'll be computed as needed, just
+			// without subscribing to its sources. The sources themselves are kept
+			// so that it can still tell whether it's stale.
+			this._flags = (flags & ~Flags.TRACKING) | Flags.DISPOSED;
+
+			if (flags & Flags.TRACKING) {
+				for (let i = 0, ilen = dependencies.length; i < ilen; i++) {
+					const dep = dependencies[i];
+					dep._unsubscribe(links[i]);
+				}
+			}
+
+			links.length = 0;
+
+			detach_owned(this);
+		}
+	}
+
+	/** @internal */
+	override _subscribe(target: Computation): Link {
+		const is_first = this._first_dependant === undefined;
+
+		// Add the dependant first so that it gets notified if our sources are
+		// written to as they gain their first dependant.
+		const link = super._subscribe(target);
+
+		// Subscribe to our sources now that we have someone subscribing on us,
+		// a disposed signal no longer subscribes to its sources.
+		if (is_first && !(this._flags & Flags.DISPOSED)) {
 			const dependencies = this._dependencies;
+			const links = this._links;
+
 			this._flags |= Flags.TRACKING;
 
 			for (let i = 0, ilen = dependencies.length; i < ilen; i++) {
 				const dep = dependencies[i];
-				dep._subscribe(this);
+				links.push(dep._subscribe(this));
 			}
 		}
 
-		super._subscribe(target);
+		return link;
 	}
 
 	/** @internal */
-	_unsubscribe(target: Computation): void {
-		super._unsubscribe(target);
+	override _unsubscribe(link: Link): void {
+		super._unsubscribe(link);
 
 		// Unsubscribe from our sources since there's no one subscribing to us
-		if (this._dependants.length < 1) {
+		if (this._first_dependant === undefined && this._flags & Flags.TRACKING) {
 			const dependencies = this._dependencies;
+			const links = this._links;
+
 			this._flags &= ~Flags.TRACKING;
 
 			for (let i = 0, ilen = dependencies.length; i < ilen; i++) {
 				const dep = dependencies[i];
-				dep._unsubscribe(this);
+				dep._unsubscribe(links[i]);
 			}
+
+			links.length = 0;
 		}
 	}
 
 	/** @internal */
 	_notify(flag: Flags.DIRTY | Flags.MAYBE_DIRTY): void {
 		if (!(this._flags & (Flags.NOTIFIED | Flags.RUNNING))) {
-			const dependants = this._dependants;
-
 			this._flags |= flag | Flags.NOTIFIED;
 
-			for (let i = 0, ilen = dependants.length; i < ilen; i++) {
-				const dep = dependants[i];
-
+			for (let link = this._first_dependant; link !== undefined; link = link._next) {
 				// Computed signal dependants aren't guaranteed to be dirty.
-				dep._notify(Flags.MAYBE_DIRTY);
+				link._target._notify(Flags.MAYBE_DIRTY);
 			}
 		}
 	}
 
+	/**
+	 * Retrieves the error thrown by the computation if there is one, tracks the
+	 * currently-running effect as a dependant
+	 */
+	get error(): unknown {
+		this._refresh();
+
+		const value = super.value;
+		return this._flags & Flags.HAS_ERROR ? value : undefined;
+	}
+
 	/**
 	 * Retrieves the value without being tracked as a dependant
 	 */
-	peek(): T {
+	override peek(): T {
 		this._refresh();
 
 		if (this._flags & Flags.HAS_ERROR) {
@@ -479,7 +961,7 @@ export class Computed<T = unknown> extends Signal<T> {
 	/**
 	 * Retrieves the value, tracks the currently-running effect as a dependant
 	 */
-	get value(): T {
+	override get value(): T {
 		this._refresh();
 
 		if (this._flags & Flags.HAS_ERROR) {
@@ -490,6 +972,51 @@ export class Computed<T = unknown> extends Signal<T> {
 	}
 }
 
+export class WritableComputed<T = unknown> extends Computed<T> {
+	/**
+	 * @internal
+	 * Function receiving the values written to this computed signal
+	 */
+	_set: (value: T) => void;
+
+	constructor(compute: (prev: T) => T, set: (value: T) => void, initialValue: T, options?: SignalOptions<T>) {
+		super(compute, initialValue, options);
+
+		this._set = set;
+	}
+
+	/**
+	 * Retrieves the value, tracks the currently-running effect as a dependant
+	 */
+	override get value(): T {
+		return super.value;
+	}
+	override set value(next: T) {
+		const set = this._set;
+		batch(() => set(next));
+	}
+
+	/**
+	 * Mutates the value in-place, then passes it on to the setter.
+	 * @param fn Function receiving the current value to mutate
+	 */
+	override mutate(fn: (value: T) => void): void {
+		fn(this.peek());
+		this.notify();
+	}
+
+	/**
+	 * Passes the current value on to the setter, this is useful after mutating
+	 * the value in-place.
+	 */
+	override notify(): void {
+		const set = this._set;
+		const value = this.peek();
+
+		batch(() => set(value));
+	}
+}
+
 type CleanupFunction = () => void;
 
 export class Effect<T = void> {
@@ -499,9 +1026,15 @@ export class Effect<T = void> {
 	_context_epoch = -1;
 	/** @internal Signals it's depending on */
 	_dependencies: Signal[] = [];
+	/** @internal Subscriptions to the signals it's depending on */
+	_links: Link[] = [];
 	/** @internal Context flags */
 	_flags = Flags.TRACKING;
 
+	/** @internal Owner this effect is attached to */
+	_owner: Owner | undefined;
+	/** @internal Computations and scopes created under this effect */
+	_children: Owned[] = [];
 	/** @internal Registered cleanup functions */
 	_cleanups: CleanupFunction[] = [];
 	/** @internal Compute function for this effect */
@@ -510,22 +1043,41 @@ export class Effect<T = void> {
 	_value!: T;
 
 	/** @internal Batched effects are queued by a linked list on itself */
-	_next_batched_effect: Effect | undefined;
+	_next_batched_effect: Effect<any> | undefined;
+	/** @internal Phase this effect gets queued on */
+	_phase: Phase;
+	/** @internal Name used for debugging */
+	_name: string | undefined;
+
+	constructor(compute: (prev: T) => T, initialValue: T, options?: EffectOptions) {
+		const phase = options?.phase;
 
-	constructor(compute: (prev: T) => T, initialValue: T) {
 		this._compute = compute;
 		this._value = initialValue;
+		this._phase = phase === 'pre' ? Phase.PRE : phase === 'post' ? Phase.POST : Phase.DEFAULT;
+		this._name = options?.name;
+
+		attach_owned(this);
 	}
 
 	/** @internal */
 	_refresh() {
+		if (this._flags & Flags.RUNNING) {
+			return;
+		}
+
+		// Dispose of anything created by the previous run, this could end up
+		// disposing this effect if any of the cleanups throws.
+		cleanup_owner(this);
+
 		const flags = this._flags;
 
-		if (flags & Flags.RUNNING) {
+		if (flags & Flags.DISPOSED) {
 			return;
 		}
 
 		const prev_listener = eval_listener;
+		const prev_owner = eval_owner;
 		const prev_sources = eval_untracked_sources;
 		const prev_sources_index = eval_sources_index;
 
@@ -533,22 +1085,32 @@ export class Effect<T = void> {
 			/*#__INLINE__*/ start_batch();
 
 			eval_listener = this;
+			eval_owner = this;
 			eval_untracked_sources = undefined;
 			eval_sources_index = 0;
 
+			if (trace_hook !== undefined) {
+				trace_hook('effect', this, this._epoch);
+			}
+
 			this._epoch = write_clock;
 			this._context_epoch = read_clock++;
 			this._flags = (flags & ~Flags.DIRTY & ~Flags.MAYBE_DIRTY) | Flags.RUNNING;
 
 			this._value = (0, this._compute)(this._value);
 		} finally {
+			// Unset RUNNING before subscribing, sources can be written to as they
+			// gain their first dependant and we'd want to be notified of that.
+			this._flags &= ~Flags.RUNNING;
+
 			cleanup_context();
 
 			eval_listener = prev_listener;
+			eval_owner = prev_owner;
 			eval_untracked_sources = prev_sources;
 			eval_sources_index = prev_sources_index;
 
-			if ((this._flags &= ~Flags.RUNNING) & Flags.DISPOSED) {
+			if (this._flags & Flags.DISPOSED) {
 				dispose_effect(this, true);
 			}
 
@@ -559,9 +1121,18 @@ export class Effect<T = void> {
 	/** @internal */
 	_notify(flag: Flags.DIRTY | Flags.MAYBE_DIRTY): void {
 		if (!(this._flags & (Flags.NOTIFIED | Flags.RUNNING))) {
+			const phase = this._phase;
+			const tail = batched_effects_tail[phase];
+
 			this._flags |= flag | Flags.NOTIFIED;
-			this._next_batched_effect = batched_effect;
-			batched_effect = this;
+
+			if (tail !== undefined) {
+				tail._next_batched_effect = this;
+			} else {
+				batched_effects[phase] = this;
+			}
+
+			batched_effects_tail[phase] = this;
 		}
 	}
 
@@ -573,14 +1144,85 @@ export class Effect<T = void> {
 	}
 }
 
+export class Scope {
+	/** @internal Context flags */
+	_flags = 0;
+	/** @internal Owner this scope is attached to */
+	_owner: Owner | undefined;
+	/** @internal Computations and scopes created under this scope */
+	_children: Owned[] = [];
+	/** @internal Registered cleanup functions */
+	_cleanups: CleanupFunction[] = [];
+	/** @internal Error handler, makes this scope an error boundary */
+	_handler: ErrorHandler | undefined;
+
+	constructor(detached: boolean) {
+		if (!detached) {
+			attach_owned(this);
+		}
+	}
+
+	/** @internal */
+	_run<T>(fn: () => T): T {
+		const prev_owner = eval_owner;
+		eval_owner = this;
+
+		try {
+			return fn();
+		} finally {
+			eval_owner = prev_owner;
+		}
+	}
+
+	/** @internal */
+	_dispose(): void {
+		if (!(this._flags & Flags.DISPOSED)) {
+			this._flags |= Flags.DISPOSED;
+			dispose_scope(this);
+		}
+	}
+}
+
 /**
  * Create a new signal, a container that can change value and subscribed to at
  * any given time.
  */
 export function signal<T>(): Signal<T | undefined>;
-export function signal<T>(value: T): Signal<T>;
-export function signal<T>(value?: T): Signal<T | undefined> {
-	return new Signal(value);
+export function signal<T>(value: T, options?: SignalOptions<T>): Signal<T>;
+export function signal<T>(value?: T, options?: SignalOptions<T | undefined>): Signal<T | undefined> {
+	return new Signal(value, options);
+}
+
+/**
+ * The start function itself, receives a setter for the signal's value, and can
+ * return a function to stop.
+ */
+export type SourceStartFunction<T> = (set: (value: T) => void) => (() => void) | void;
+
+/**
+ * Create a signal backed by an external source, the source is only started
+ * while the signal is being depended on, and stopped once it no longer is.
+ */
+export function fromSource<T>(start: SourceStartFunction<T>): ReadonlySignal<T | undefined>;
+export function fromSource<T>(start: SourceStartFunction<T>, value: T): ReadonlySignal<T>;
+export function fromSource<T>(start: SourceStartFunction<T>, value?: T): ReadonlySignal<T | undefined> {
+	let stop: (() => void) | void;
+
+	const instance: Signal<T | undefined> = new Signal(value, {
+		watched() {
+			stop = start((next) => instance.value = next);
+		},
+		unwatched() {
+			if (stop) {
+				const fn = stop;
+				stop = undefined;
+
+				fn();
+			}
+		},
+	});
+
+	return instance;
 }
 
 type NoInfer<T extends any> = [T][T extends any ? 0 : never];
@@ -591,7 +1233,18 @@ type NoInfer<T extends any> = [T][T extends any ? 0 : never];
 export type ComputedFunction<Prev, Next extends Prev = Prev> = (v: Prev) => Next;
 
 /**
- * Create derivations of signals.
+ * Compute and set functions of a writable computed signal.
+ */
+export interface ComputedAccessors<T> {
+	/** Compute function used to retrieve the value */
+	get: ComputedFunction<T | undefined, T>;
+	/** Function receiving the values written to the signal, ran inside of a batch */
+	set: (value: T) => void;
+}
+
+/**
+ * Create derivations of signals, passing accessors creates a computed signal
+ * that can also be written to.
  */
 export function computed<Next extends Prev, Prev = Next>(
 	fn: ComputedFunction<undefined | NoInfer<Prev>, Next>,
@@ -599,13 +1252,46 @@ export function computed<Next extends Prev, Prev = Next>(
 export function computed<Next extends Prev, Init = Next, Prev = Next>(
 	fn: ComputedFunction<Init | Prev, Next>,
 	value: Init,
+	options?: SignalOptions<Next>,
 ): ReadonlySignal<Next>;
+export function computed<T>(
+	accessors: ComputedAccessors<T>,
+	value?: T,
+	options?: SignalOptions<T>,
+): Signal<T>;
 export function computed<Next extends Prev, Init, Prev>(
-	fn: ComputedFunction<Init | Prev, Next>,
+	fn: ComputedFunction<Init | Prev, Next> | ComputedAccessors<any>,
 	value?: Init,
-): ReadonlySignal<Next> {
+	options?: SignalOptions<Next>,
+): Signal<Next> {
+	if (typeof fn === 'object') {
+		// @ts-expect-error: messy overloads
+		return new WritableComputed(fn.get, fn.set, value, options);
+	}
+
 	// @ts-expect-error: messy overloads
-	return new Computed(fn, value);
+	return new Computed(fn, value, options);
+}
+
+/**
+ * Create a writable view over a signal, writes to the view are mapped back and
+ * written to the signal.
+ * @param source Signal to create a view over
+ * @param get Function retrieving the view's value from the signal's value
+ * @param set Function returning the signal's next value from the view's value
+ * @returns Signal of the view
+ */
+export function lens<S, T>(
+	source: Signal<S>,
+	get: (value: S) => T,
+	set: (value: T, prev: S) => S,
+): Signal<T> {
+	return new WritableComputed<T>(
+		() => get(source.value),
+		(value) => source.value = set(value, source.peek()),
+		// @ts-expect-error: initial value is never passed to the getter
+		undefined,
+	);
 }
 
 /**
@@ -613,39 +1299,104 @@ export function computed<Next extends Prev, Init, Prev>(
  */
 export type EffectFunction<Prev, Next extends Prev = Prev> = (v: Prev) => Next;
 
+/**
+ * Function that disposes of an effect or a scope.
+ */
+export type DisposeFunction = () => void;
+
+/**
+ * Phase an effect gets ran on.
+ */
+export type EffectPhase = 'pre' | 'default' | 'post';
+
+export interface EffectOptions {
+	/**
+	 * Phase this effect gets ran on, defaults to `default`.
+	 *
+	 * Effects are ran in the order they were notified, but all `pre` effects are
+	 * ran before `default` effects, and `post` effects are only ran once there
+	 * are no `pre` or `default` effects left to run.
+	 */
+	phase?: EffectPhase;
+	/**
+	 * Name used to identify this effect when debugging.
+	 */
+	name?: string;
+}
+
 /**
  * Run side-effects that get rerun when one of its signal dependencies change.
+ * @returns Function to dispose of the effect
  */
 export function effect<Next extends Prev, Prev = Next>(
 	fn: EffectFunction<undefined | NoInfer<Prev>, Next>,
-): void;
+): DisposeFunction;
 export function effect<Next extends Prev, Init = Next, Prev = Next>(
 	fn: EffectFunction<Init | Prev, Next>,
 	value: Init,
-): void;
+	options?: EffectOptions,
+): DisposeFunction;
 export function effect<Next extends Prev, Init, Prev>(
 	fn: EffectFunction<Init | Prev, Next>,
 	value?: Init,
-): void {
+	options?: EffectOptions,
+): DisposeFunction {
 	// @ts-expect-error - messy overloads
-	const instance = new Effect(fn, value);
+	const instance = new Effect(fn, value, options);
 
 	try {
 		instance._refresh();
 	} catch (err) {
+		const owner = instance._owner;
+
 		instance._dispose();
+		handle_error(owner, err);
+	}
+
+	return () => instance._dispose();
+}
+
+/**
+ * Creates a detached owner scope, effects and computations created inside of
+ * it are only disposed once the scope itself is disposed.
+ * @param fn Function to run under the scope, receives the dispose function
+ * @returns Return value of the function
+ */
+export function root<T>(fn: (dispose: DisposeFunction) => T): T {
+	const scope = new Scope(true);
+	const dispose = () => scope._dispose();
+
+	return untrack(() => scope._run(() => fn(dispose)));
+}
+
+/**
+ * Creates an owner scope attached to the current effect or scope, effects and
+ * computations created inside of it are disposed alongside the scope.
+ * @param fn Function to run under the scope
+ * @returns Function to dispose of the scope
+ */
+export function effectScope(fn: () => void): DisposeFunction {
+	const scope = new Scope(false);
+
+	try {
+		scope._run(fn);
+	} catch (err) {
+		scope._dispose();
 		throw err;
 	}
+
+	return () => scope._dispose();
 }
 
 /**
- * Adds a cleanup function that gets run when an effect is rerun or destroyed
+ * Adds a cleanup function that gets run when an effect is rerun or destroyed,
+ * or when a scope is disposed
  * @param fn Cleanup function to run
- * @param throws Whether to throw if not under an effect, defaults to true
+ * @param throws Whether to throw if not under an effect or scope, defaults to true
  */
 export function cleanup(fn: () => void, throws = true) {
-	if (eval_listener instanceof Effect) {
-		eval_listener._cleanups.push(fn);
+	if (eval_owner !== undefined) {
+		eval_owner._cleanups.push(fn);
 	} else if (throws) {
 		throw new Error(`Cleanup function called outside of effect`);
 	}
@@ -669,6 +1420,154 @@ export function untrack<T>(callback: () => T): T {
 	}
 }
 
+/**
+ * Function that handles errors thrown by effects and cleanup functions.
+ */
+export type ErrorHandler = (error: unknown) => void;
+
+export interface ErrorHandlingOptions {
+	/**
+	 * Global handler for errors that aren't caught by an error boundary, errors
+	 * are thrown back to whoever triggered the effects if unset.
+	 */
+	handler?: ErrorHandler;
+	/**
+	 * Whether to throw an `AggregateError` containing all of the errors when
+	 * multiple errors are thrown at once, otherwise only the first error is
+	 * thrown. Defaults to false.
+	 */
+	aggregate?: boolean;
+}
+
+/**
+ * Configures how errors thrown by effects and cleanup functions are handled.
+ */
+export function setErrorHandling(options: ErrorHandlingOptions): void {
+	error_handler = options.handler;
+	aggregate_errors = options.aggregate ?? false;
+}
+
+/**
+ * Creates an error boundary, errors thrown by effects and cleanup functions
+ * created inside of it are passed to the handler. Throwing inside the handler
+ * passes the error on to the next boundary.
+ * @param fn Function to run under the boundary
+ * @param handler Function that handles the errors
+ * @returns Return value of the function, or undefined if it throws
+ */
+export function catchError<T>(fn: () => T, handler: ErrorHandler): T | undefined {
+	const scope = new Scope(false);
+	scope._handler = handler;
+
+	try {
+		return scope._run(fn);
+	} catch (err) {
+		handle_error(scope, err);
+	}
+}
+
+/**
+ * Checks whether a computed signal has thrown an error, tracks the
+ * currently-running effect as a dependant
+ */
+export function isErrored(signal: ReadonlySignal<any>): boolean {
+	if (signal instanceof Computed) {
+		signal.error;
+		return (signal._flags & Flags.HAS_ERROR) !== 0;
+	}
+
+	return false;
+}
+
+/**
+ * Error thrown when effects are caught in a cycle of updating each other.
+ */
+export class CycleError extends Error {
+	/** Effects involved in the cycle */
+	effects: Effect<any>[];
+	/** Signals involved in the cycle */
+	signals: Signal<any>[];
+
+	constructor(message: string, effects: Effect<any>[], signals: Signal<any>[]) {
+		super(message);
+
+		this.name = 'CycleError';
+		this.effects = effects;
+		this.signals = signals;
+	}
+}
+
+export interface CycleDetectionOptions {
+	/**
+	 * Maximum amount of times batched effects can be ran in succession before
+	 * it's considered to be a cycle, defaults to 100.
+	 */
+	limit?: number;
+	/**
+	 * Whether to throw when an effect writes to a signal it has read in the same
+	 * run, defaults to false.
+	 */
+	selfWrites?: boolean;
+}
+
+/**
+ * Configures how cycles between effects are detected, a `CycleError` is thrown
+ * once a cycle is detected.
+ */
+export function setCycleDetection(options: CycleDetectionOptions): void {
+	max_batch_iterations = options.limit ?? 100;
+	check_self_writes = options.selfWrites ?? false;
+}
+
+/**
+ * Function that schedules the batched effects to be ran at a later time by
+ * calling the passed flush function.
+ */
+export type Scheduler = (flush: () => void) => void;
+
+/**
+ * Scheduler that runs batched effects on a microtask.
+ */
+export const microtaskScheduler: Scheduler = (flush) => queueMicrotask(flush);
+
+/**
+ * Sets the scheduler used to run batched effects.
+ * @param next Scheduler to use, batched effects are ran synchronously at the
+ * end of a batch if unset
+ */
+export function setScheduler(next: Scheduler | undefined): void {
+	scheduler = next;
+}
+
+/**
+ * Runs any pending effects right away, does nothing if called within a batch
+ * or an effect.
+ */
+export function flush(): void {
+	if (batch_depth === 0 && has_batched_effects()) {
+		/*#__INLINE__*/ start_batch();
+		is_flushing = true;
+
+		try {
+			end_batch();
+		} finally {
+			is_flushing = false;
+		}
+	}
+}
+
+/**
+ * Waits for pending effects to be ran.
+ * @returns Promise that resolves once there are no pending effects left
+ */
+export function tick(): Promise<void> {
+	if (!has_batched_effects()) {
+		return Promise.resolve();
+	}
+
+	return new Promise((resolve) => tick_resolvers.push(resolve));
+}
+
 /**
  * Combines multiple signal writes into one single update that gets triggered at
  * the end of the callback
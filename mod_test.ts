@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+
+import { computed, effect, lens, type ReadonlySignal, signal } from './mod.ts';
+
+Deno.test('Disposed computed signals are still computed on read', () => {
+	const source = signal(1);
+	const rerun = signal(0);
+
+	let read!: ReadonlySignal<number>;
+	let unread!: ReadonlySignal<number>;
+
+	const dispose = effect(() => {
+		if (rerun.value === 0) {
+			read = computed(() => source.value * 10);
+			unread = computed(() => source.value * 100);
+
+			read.value;
+		}
+	});
+
+	// Rerunning the effect disposes of both computed signals.
+	rerun.value = 1;
+
+	assert.equal(read.value, 10);
+	assert.equal(unread.value, 100);
+
+	source.value = 2;
+
+	assert.equal(read.value, 20);
+	assert.equal(unread.value, 200);
+
+	dispose();
+});
+
+Deno.test('Mutating a lens writes through to its source', () => {
+	const source = signal({ inner: { count: 1 } });
+	const inner = lens(source, (value) => value.inner, (next, prev) => ({ ...prev, inner: next }));
+
+	const prev = source.peek();
+
+	inner.mutate((value) => value.count = 2);
+
+	assert.notEqual(source.peek(), prev);
+	assert.equal(source.peek().inner.count, 2);
+
+	inner.notify();
+	assert.equal(source.peek().inner.count, 2);
+});
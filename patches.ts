@@ -0,0 +1,243 @@
+/**
+ * @module
+ * Changes made to reactive proxies as JSON Patch (RFC 6902) operations.
+ */
+
+import { batch, cleanup, type DisposeFunction, effect, effectScope, signal, untrack } from './mod.ts';
+import { get_path, listen_writes, reactive, type StoreWrite, unwrap } from './store.ts';
+
+export interface AddPatch {
+	op: 'add';
+	path: string;
+	value: unknown;
+}
+
+export interface ReplacePatch {
+	op: 'replace';
+	path: string;
+	value: unknown;
+}
+
+export interface RemovePatch {
+	op: 'remove';
+	path: string;
+}
+
+/**
+ * JSON Patch operation, only the operations that writes can produce are
+ * supported.
+ */
+export type Patch = AddPatch | ReplacePatch | RemovePatch;
+
+/**
+ * The listener itself, receiving the patches made within a batch along with
+ * the patches to revert them, ran without being tracked.
+ */
+export type PatchListener = (patches: Patch[], inverse: Patch[]) => void;
+
+const object_proto = /*#__PURE__*/ Object.prototype;
+const get_prototype_of = /*#__PURE__*/ Object.getPrototypeOf;
+
+function escape_key(key: string): string {
+	return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescape_key(key: string): string {
+	return key.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+function parse_path(path: string): string[] {
+	if (path[0] !== '/') {
+		throw new Error(`Invalid patch path: ${path}`);
+	}
+
+	return path.slice(1).split('/').map(unescape_key);
+}
+
+/**
+ * Copies plain objects, arrays and maps, the value could otherwise be mutated
+ * after the patch has been made.
+ */
+function snapshot(value: unknown): unknown {
+	value = unwrap(value);
+
+	if (typeof value !== 'object' || value === null) {
+		return value;
+	}
+
+	if (Array.isArray(value)) {
+		return value.map(snapshot);
+	}
+
+	if (value instanceof Map) {
+		return new Map(Array.from(value, ([key, entry]) => [key, snapshot(entry)]));
+	}
+
+	const proto = get_prototype_of(value);
+
+	if (proto === null || proto === object_proto) {
+		const copy: Record<string, unknown> = {};
+
+		for (const key of Object.keys(value)) {
+			copy[key] = snapshot((value as Record<string, unknown>)[key]);
+		}
+
+		return copy;
+	}
+
+	return value;
+}
+
+function record_write(root: object, write: StoreWrite, patches: Patch[], inverse: Patch[]): void {
+	const target = write._target;
+	const key = write._key;
+	const is_array = Array.isArray(target);
+
+	// Array lengths are implied by the elements being added or removed, and sets
+	// have no keys to point to.
+	if (
+		typeof key !== 'string' || (is_array && key === 'length') ||
+		target instanceof Set || target instanceof WeakSet || target instanceof WeakMap
+	) {
+		return;
+	}
+
+	const base = get_path(root, target);
+
+	if (base === undefined || !base.every((segment) => typeof segment === 'string')) {
+		return;
+	}
+
+	let path = '';
+
+	for (let i = 0, ilen = base.length; i < ilen; i++) {
+		path += '/' + escape_key(base[i] as string);
+	}
+
+	path += '/' + escape_key(key);
+
+	if (write._has) {
+		const value = snapshot(write._next);
+
+		if (write._had) {
+			patches.push({ op: 'replace', path, value });
+			inverse.unshift({ op: 'replace', path, value: snapshot(write._prev) });
+		} else {
+			patches.push({ op: 'add', path, value });
+			inverse.unshift({ op: 'remove', path });
+		}
+	} else if (is_array && +key < (target as unknown[]).length) {
+		// Deleting an element leaves a hole, which is null in JSON.
+		patches.push({ op: 'replace', path, value: null });
+		inverse.unshift({ op: 'replace', path, value: snapshot(write._prev) });
+	} else {
+		patches.push({ op: 'remove', path });
+		inverse.unshift({ op: 'add', path, value: snapshot(write._prev) });
+	}
+}
+
+/**
+ * Listens for changes made to a reactive proxy as JSON Patch operations, the
+ * writes made inside of a batch are passed on together once it's over.
+ * @param store Reactive proxy to listen to
+ * @param listener Function receiving the patches
+ * @returns Function to stop listening
+ */
+export function observePatches(store: object, listener: PatchListener): DisposeFunction {
+	const root = unwrap(store);
+	const queued = signal<void>(undefined);
+
+	let patches: Patch[] = [];
+	let inverse: Patch[] = [];
+
+	return effectScope(() => {
+		// Paths have to be figured out right away, since array elements could be
+		// moved around by the time the batch is over.
+		cleanup(listen_writes((write) => {
+			const has_patches = patches.length > 0;
+
+			record_write(root, write, patches, inverse);
+
+			if (!has_patches && patches.length > 0) {
+				queued.notify();
+			}
+		}));
+
+		effect(() => {
+			queued.value;
+
+			if (patches.length > 0) {
+				const current = patches;
+				const current_inverse = inverse;
+
+				patches = [];
+				inverse = [];
+
+				untrack(() => listener(current, current_inverse));
+			}
+		});
+	});
+}
+
+function apply_patch(store: object, patch: Patch): void {
+	const path = patch.path;
+	const keys = parse_path(path);
+	const last = keys.length - 1;
+
+	let parent: any = store;
+
+	for (let i = 0; i < last; i++) {
+		const key = keys[i];
+
+		parent = parent instanceof Map ? parent.get(key) : parent[key];
+
+		if (typeof parent !== 'object' || parent === null) {
+			throw new Error(`Invalid patch path: ${path}`);
+		}
+	}
+
+	const key = keys[last];
+
+	if (Array.isArray(parent)) {
+		const index = key === '-' ? parent.length : +key;
+
+		if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+			throw new Error(`Invalid patch path: ${path}`);
+		}
+
+		if (patch.op === 'add') {
+			parent.splice(index, 0, snapshot(patch.value));
+		} else if (patch.op === 'remove') {
+			parent.splice(index, 1);
+		} else {
+			parent[index] = snapshot(patch.value);
+		}
+	} else if (parent instanceof Map) {
+		if (patch.op === 'remove') {
+			parent.delete(key);
+		} else {
+			parent.set(key, snapshot(patch.value));
+		}
+	} else if (patch.op === 'remove') {
+		delete parent[key];
+	} else {
+		parent[key] = snapshot(patch.value);
+	}
+}
+
+/**
+ * Applies JSON Patch operations to a reactive proxy, inside of a single batch.
+ * @param store Reactive proxy to apply to
+ * @param patches Patches to apply
+ */
+export function applyPatches(store: object, patches: readonly Patch[]): void {
+	const proxy = reactive(store);
+
+	untrack(() =>
+		batch(() => {
+			for (let i = 0, ilen = patches.length; i < ilen; i++) {
+				apply_patch(proxy, patches[i]);
+			}
+		})
+	);
+}
@@ -0,0 +1,158 @@
+/**
+ * @module
+ * Async computations with reactive loading and error states.
+ */
+
+import {
+	cleanup,
+	computed,
+	type DisposeFunction,
+	effect,
+	type ReadonlySignal,
+	type Signal,
+	signal,
+} from './mod.ts';
+
+interface ResourceState<T> {
+	_loading: boolean;
+	_errored: boolean;
+	_error: unknown;
+	_value: T;
+}
+
+/**
+ * The fetcher function itself, signals read before the first `await` are
+ * tracked as dependencies. The abort signal is aborted once the dependencies
+ * change or the resource is disposed.
+ */
+export type ResourceFetcher<T> = (signal: AbortSignal, prev: T) => Promise<T>;
+
+export class Resource<T = unknown> {
+	/** @internal Current state of the resource */
+	_state: Signal<ResourceState<T>>;
+	/** @internal Written to when a refetch is requested */
+	_trigger: Signal<void>;
+
+	/** @internal */
+	_value: ReadonlySignal<T>;
+	/** @internal */
+	_loading: ReadonlySignal<boolean>;
+	/** @internal */
+	_error: ReadonlySignal<unknown>;
+
+	/** @internal Disposes the underlying effect */
+	_dispose: DisposeFunction;
+
+	constructor(fetcher: ResourceFetcher<T>, initialValue: T) {
+		const state = this._state = signal<ResourceState<T>>({
+			_loading: true,
+			_errored: false,
+			_error: undefined,
+			_value: initialValue,
+		});
+		const trigger = this._trigger = signal<void>(undefined, { equals: false });
+
+		// Errors are rethrown from the computed signal, this way reading the value
+		// from another computed signal propagates the error as it would normally.
+		this._value = computed(() => {
+			const current = state.value;
+
+			if (current._errored) {
+				throw current._error;
+			}
+
+			return current._value;
+		});
+		this._loading = computed(() => state.value._loading);
+		this._error = computed(() => state.value._error);
+
+		this._dispose = effect(() => {
+			const controller = new AbortController();
+			const abort_signal = controller.signal;
+			const prev = state.peek();
+
+			let promise: Promise<T>;
+
+			trigger.value;
+			cleanup(() => controller.abort());
+
+			try {
+				promise = fetcher(abort_signal, prev._value);
+			} catch (err) {
+				state.value = { _loading: false, _errored: true, _error: err, _value: prev._value };
+				return;
+			}
+
+			if (!prev._loading) {
+				state.value = { ...prev, _loading: true };
+			}
+
+			promise.then(
+				(value) => {
+					if (!abort_signal.aborted) {
+						state.value = { _loading: false, _errored: false, _error: undefined, _value: value };
+					}
+				},
+				(err) => {
+					if (!abort_signal.aborted) {
+						state.value = { _loading: false, _errored: true, _error: err, _value: state.peek()._value };
+					}
+				},
+			);
+		});
+	}
+
+	/**
+	 * Latest resolved value, throws if the last fetch has failed.
+	 */
+	get value(): T {
+		return this._value.value;
+	}
+
+	/**
+	 * Whether a fetch is currently pending.
+	 */
+	get loading(): boolean {
+		return this._loading.value;
+	}
+
+	/**
+	 * Error thrown by the last fetch, if any.
+	 */
+	get error(): unknown {
+		return this._error.value;
+	}
+
+	/**
+	 * Retrieves the latest resolved value without being tracked as a dependant.
+	 */
+	peek(): T {
+		return this._value.peek();
+	}
+
+	/**
+	 * Aborts the pending fetch, if any, and runs the fetcher again.
+	 */
+	refetch(): void {
+		this._trigger.value = undefined;
+	}
+
+	/**
+	 * Aborts the pending fetch and stops tracking any dependencies.
+	 */
+	dispose(): void {
+		this._dispose();
+	}
+}
+
+/**
+ * Create an async derivation of signals with reactive loading and error states.
+ */
+export function resource<T>(fetcher: ResourceFetcher<T | undefined>): Resource<T | undefined>;
+export function resource<T>(fetcher: ResourceFetcher<T>, initialValue: T): Resource<T>;
+export function resource<T>(
+	fetcher: ResourceFetcher<T | undefined>,
+	initialValue?: T,
+): Resource<T | undefined> {
+	return new Resource(fetcher, initialValue);
+}
@@ -0,0 +1,122 @@
+/**
+ * @module
+ * Keyed selection where only the previously and newly selected keys are
+ * notified of changes.
+ */
+
+import {
+	type DisposeFunction,
+	effect,
+	eval_listener,
+	type ReadonlySignal,
+	type Signal,
+	signal,
+} from './mod.ts';
+
+/**
+ * Function checking whether a key is selected.
+ */
+export interface Selector<K> {
+	(key: K): boolean;
+	/** Stops updating the selections */
+	dispose: DisposeFunction;
+}
+
+/**
+ * Creates a selector for checking whether a key is selected, when the source
+ * changes only the dependants of the previously and newly selected keys are
+ * notified, rather than every dependant.
+ * @param source Signal holding the selected key
+ * @param equals Comparator between a key and the selected value, defaults to
+ * strict equality. Every key has to be compared on change if this is passed.
+ * @returns Function that checks whether a key is selected, along with a way to
+ * stop updating the selections
+ */
+export function createSelector<T, K = T>(
+	source: ReadonlySignal<T>,
+	equals?: (key: K, value: T) => boolean,
+): Selector<K> {
+	// More than one signal can exist for the same key, a signal that has lost all
+	// of its dependants can be depended on again later on.
+	const selections = new Map<K, Set<Signal<boolean>>>();
+
+	let current: T;
+
+	const add_selection = (key: K, selection: Signal<boolean>) => {
+		const group = selections.get(key);
+
+		if (group !== undefined) {
+			group.add(selection);
+		} else {
+			selections.set(key, new Set([selection]));
+		}
+	};
+
+	const remove_selection = (key: K, selection: Signal<boolean>) => {
+		const group = selections.get(key);
+
+		if (group !== undefined && group.delete(selection) && group.size === 0) {
+			selections.delete(key);
+		}
+	};
+
+	const set_selected = (group: Set<Signal<boolean>> | undefined, selected: boolean) => {
+		if (group !== undefined) {
+			for (const selection of group) {
+				selection.value = selected;
+			}
+		}
+	};
+
+	const update = () => {
+		const next = source.value;
+		const prev = current;
+
+		current = next;
+
+		if (equals === undefined) {
+			// Only the previous and the next key can possibly change.
+			set_selected(selections.get(prev as unknown as K), false);
+			set_selected(selections.get(next as unknown as K), true);
+		} else {
+			for (const [key, group] of selections) {
+				set_selected(group, equals(key, next));
+			}
+		}
+	};
+
+	// Selections are settled before any other effects get to run.
+	const dispose = effect(update, undefined, { phase: 'pre' });
+
+	const is_selected = (key: K): boolean => {
+		return equals !== undefined ? equals(key, current) : key as unknown === current;
+	};
+
+	const selector = (key: K): boolean => {
+		if (eval_listener === undefined) {
+			return is_selected(key);
+		}
+
+		let selection = selections.get(key)?.values().next().value;
+
+		if (selection === undefined) {
+			// Only kept up to date while something is depending on it, it's brought
+			// back up to date if it gains a dependant again.
+			const created: Signal<boolean> = signal(is_selected(key), {
+				watched: () => {
+					created.value = is_selected(key);
+					add_selection(key, created);
+				},
+				unwatched: () => {
+					remove_selection(key, created);
+				},
+			});
+
+			add_selection(key, selection = created);
+		}
+
+		return selection.value;
+	};
+
+	return Object.assign(selector, { dispose });
+}
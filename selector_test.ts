@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+
+import { computed, effect, signal } from './mod.ts';
+import { createSelector } from './selector.ts';
+
+Deno.test('Selections survive dependants rerunning', () => {
+	const selected = signal(0);
+	const flag = signal(false);
+	const other = signal(0);
+	const is_selected = createSelector(selected);
+	const log: boolean[] = [];
+
+	const dispose = effect(() => {
+		if (flag.value) {
+			other.value;
+		}
+
+		log.push(is_selected(2));
+	});
+
+	flag.value = true;
+	selected.value = 2;
+
+	assert.deepEqual(log, [false, false, true]);
+
+	dispose();
+	is_selected.dispose();
+});
+
+Deno.test('Selections stay up to date when depended on again', () => {
+	const selected = signal(0);
+	const is_selected = createSelector(selected);
+	const derived = computed(() => is_selected(1));
+	const log: boolean[] = [];
+
+	effect(() => derived.value)();
+
+	const dispose_direct = effect(() => {
+		log.push(is_selected(1));
+	});
+
+	const dispose_derived = effect(() => derived.value);
+
+	selected.value = 1;
+	assert.deepEqual(log, [false, true]);
+	assert.equal(derived.value, true);
+
+	dispose_derived();
+	selected.value = 2;
+
+	const dispose_again = effect(() => derived.value);
+	assert.equal(derived.value, false);
+
+	dispose_direct();
+	dispose_again();
+	is_selected.dispose();
+});
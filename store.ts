@@ -4,7 +4,7 @@
  * Loosely based off Svelte's and Solid's reactivity proxy implementation.
  */
 
-import { batch, eval_listener, type Signal, signal } from './mod.ts';
+import { batch, computed, eval_listener, type ReadonlySignal, root, type Signal, signal } from './mod.ts';
 
 interface ObjectMetadata {
 	_is_array: boolean;
@@ -12,7 +12,38 @@ interface ObjectMetadata {
 	_values: Record<string | symbol, Signal<any> | undefined>;
 }
 
-let uid = 0;
+interface CollectionMetadata {
+	_is_map: boolean;
+	_is_weak: boolean;
+	/** written to when keys are added or removed */
+	_self: Signal<any>;
+	/** written to on any change, including values of existing keys */
+	_contents: Signal<any>;
+	_values: Map<unknown, Signal<any>> | WeakMap<WeakKey, Signal<any>>;
+}
+
+type Collection = Map<unknown, unknown> | Set<unknown> | WeakMap<WeakKey, unknown> | WeakSet<WeakKey>;
+
+/**
+ * @internal
+ * Write made through a reactive proxy, `length` writes to arrays are preceded by
+ * the removal of any elements it has truncated. Keys of collections are the
+ * keys of a map or the values of a set.
+ */
+export interface StoreWrite {
+	_target: object;
+	_key: unknown;
+	_prev: unknown;
+	_had: boolean;
+	_next: unknown;
+	_has: boolean;
+}
+
+/** @internal */
+export type StoreWriteListener = (write: StoreWrite) => void;
+
+/** starts past the initial value of the metadata signals, writing that would be a no-op */
+let uid = 1;
 
 const METADATA_SYMBOL = /*#__PURE__*/ Symbol('reactive-metadata');
 const RAW_SYMBOL = /*#__PURE__*/ Symbol('reactive-raw');
@@ -20,12 +51,34 @@ const RAW_SYMBOL = /*#__PURE__*/ Symbol('reactive-raw');
 const UNINITIALIZED = /*#__PURE__*/ Symbol('reactive-uninitialized');
 
 const deep_proxies = /*#__PURE__*/ new WeakSet<object>();
+const readonly_proxies = /*#__PURE__*/ new WeakSet<object>();
+
+/** prototypes whose instances can be made reactive */
+const reactive_protos = /*#__PURE__*/ new WeakSet<object>();
+/** objects that are never made reactive */
+const raw_objects = /*#__PURE__*/ new WeakSet<object>();
+
+/** last object that an object has been seen to be held by */
+const parents = /*#__PURE__*/ new WeakMap<object, object>();
+/** memoized getters of each proxy, getters are ran with the proxy as `this` */
+const proxy_getters = /*#__PURE__*/ new WeakMap<
+	object,
+	Record<string | symbol, ReadonlySignal<any> | undefined>
+>();
+/** listeners receiving writes made through any reactive proxy */
+const write_listeners = /*#__PURE__*/ new Set<StoreWriteListener>();
 
 const object_to_shallow = /*#__PURE__*/ new WeakMap<object, any>();
 const object_to_deep = /*#__PURE__*/ new WeakMap<object, any>();
+const object_to_shallow_readonly = /*#__PURE__*/ new WeakMap<object, any>();
+const object_to_readonly = /*#__PURE__*/ new WeakMap<object, any>();
 
 const object_proto = /*#__PURE__*/ Object.prototype;
 const array_proto = /*#__PURE__*/ Array.prototype;
+const map_proto = /*#__PURE__*/ Map.prototype;
+const set_proto = /*#__PURE__*/ Set.prototype;
+const weakmap_proto = /*#__PURE__*/ WeakMap.prototype;
+const weakset_proto = /*#__PURE__*/ WeakSet.prototype;
 const get_prototype_of = /*#__PURE__*/ Object.getPrototypeOf;
 const get_descriptor = /*#__PURE__*/ Object.getOwnPropertyDescriptor;
 const is_extensible = /*#__PURE__*/ Object.isExtensible;
@@ -36,21 +89,41 @@ const proxy_handler: ProxyHandler<any> = {
 			return target;
 		}
 
+		// Prototypes are never to be wrapped.
+		if (prop === '__proto__') {
+			return Reflect.get(target, prop, receiver);
+		}
+
 		// deno-lint-ignore prefer-const
 		let metadata: ObjectMetadata = target[METADATA_SYMBOL];
+
+		if (metadata._is_array && Object.hasOwn(array_methods, prop) && !readonly_proxies.has(receiver)) {
+			return array_methods[prop as string];
+		}
+
 		let s = metadata._values[prop];
 
 		if (s === undefined && eval_listener && (!(prop in target) || get_descriptor(target, prop)?.writable)) {
 			s = metadata._values[prop] = signal(target[prop]);
 		}
 
+		let value: any;
+
 		if (s !== undefined) {
-			const value = s.value;
-			const is_deep_proxy = deep_proxies.has(receiver);
-			return value === UNINITIALIZED ? undefined : is_deep_proxy ? reactive(value) : value;
+			value = s.value;
+
+			if (value === UNINITIALIZED) {
+				return undefined;
+			}
+		} else {
+			// Getters get the proxy as `this`, so whatever they read is tracked.
+			const getter = get_memoized_getter(target, prop, receiver);
+			value = getter !== undefined ? getter.value : Reflect.get(target, prop, receiver);
 		}
 
-		return target[prop];
+		// Nested objects are still wrapped when they're not being tracked, writes
+		// made to them would otherwise go unnoticed.
+		return wrap_nested(receiver, target, value);
 	},
 
 	has(target, prop) {
@@ -72,16 +145,38 @@ const proxy_handler: ProxyHandler<any> = {
 		return has;
 	},
 
-	set(target, prop, value) {
+	set(target, prop, value, receiver) {
 		const metadata: ObjectMetadata = target[METADATA_SYMBOL];
 
 		const is_array = metadata._is_array;
+
+		if (!is_array) {
+			const descriptor = find_descriptor(target, prop);
+
+			// Setters get the proxy as `this`, so whatever they write goes through us
+			// and are made into a single batch.
+			if (descriptor !== undefined && !('value' in descriptor)) {
+				let result = false;
+				batch(() => result = Reflect.set(target, prop, value, receiver));
+
+				return result;
+			}
+		}
+
 		const not_has = !(prop in target);
 		const s = metadata._values[prop];
 
 		const unwrapped = unwrap(value);
+		const prev = target[prop];
+		const prev_length = is_array ? target.length : 0;
+
+		if (typeof unwrapped === 'object' && unwrapped !== null) {
+			parents.set(unwrapped, target);
+		}
 
 		batch(() => {
+			let truncated: any[] | undefined;
+
 			if (s !== undefined) {
 				s.value = unwrapped;
 			}
@@ -94,10 +189,35 @@ const proxy_handler: ProxyHandler<any> = {
 						cs.value = UNINITIALIZED;
 					}
 				}
+
+				if (write_listeners.size > 0) {
+					truncated = target.slice(unwrapped);
+				}
 			}
 
 			target[prop] = unwrapped;
 
+			if (write_listeners.size > 0) {
+				// Elements removed by truncating the array come first, starting from the
+				// last element.
+				if (truncated !== undefined) {
+					for (let i = truncated.length - 1; i >= 0; i--) {
+						if (i in truncated) {
+							emit_write(target, '' + (unwrapped + i), truncated[i], true, undefined, false);
+						}
+					}
+				}
+
+				if (not_has || prev !== unwrapped) {
+					emit_write(target, prop, prev, !not_has, unwrapped, true);
+				}
+
+				// Writing past the end of an array implicitly grows it.
+				if (is_array && prop !== 'length' && target.length !== prev_length) {
+					emit_write(target, 'length', prev_length, true, target.length, true);
+				}
+			}
+
 			if (not_has) {
 				if (is_array) {
 					const ls = metadata._values.length;
@@ -107,6 +227,9 @@ const proxy_handler: ProxyHandler<any> = {
 					}
 				}
 
+				metadata._self.value = uid++;
+			} else if (is_array && prop === 'length' && target.length < prev_length) {
+				// Truncating the array removes the elements past the new length.
 				metadata._self.value = uid++;
 			}
 		});
@@ -119,9 +242,25 @@ const proxy_handler: ProxyHandler<any> = {
 			const metadata: ObjectMetadata = target[METADATA_SYMBOL];
 			const s = metadata._values[prop];
 
-			if (s !== undefined) {
-				s.value = unwrap(descriptor.value);
-			}
+			const had = prop in target;
+			const prev = target[prop];
+			const next = unwrap(descriptor.value);
+
+			let result = false;
+
+			batch(() => {
+				if (s !== undefined) {
+					s.value = next;
+				}
+
+				result = Reflect.defineProperty(target, prop, descriptor);
+
+				if (result && write_listeners.size > 0 && (!had || prev !== next)) {
+					emit_write(target, prop, prev, had, next, true);
+				}
+			});
+
+			return result;
 		}
 
 		return Reflect.defineProperty(target, prop, descriptor);
@@ -129,29 +268,26 @@ const proxy_handler: ProxyHandler<any> = {
 
 	deleteProperty(target, prop) {
 		const metadata: ObjectMetadata = target[METADATA_SYMBOL];
-
-		const is_array = metadata._is_array;
 		const s = metadata._values[prop];
 
+		const had = prop in target;
+		const prev = target[prop];
 		const result = delete target[prop];
 
-		batch(() => {
-			if (is_array && result) {
-				const ls = metadata._values.length;
-
-				if (ls !== undefined) {
-					ls.value = target.length - 1;
+		// Deleting an element off an array leaves a hole, the length stays as-is.
+		if (had && result) {
+			batch(() => {
+				if (write_listeners.size > 0) {
+					emit_write(target, prop, prev, true, undefined, false);
 				}
-			}
 
-			if (s !== undefined) {
-				s.value = UNINITIALIZED;
-			}
+				if (s !== undefined) {
+					s.value = UNINITIALIZED;
+				}
 
-			if (result) {
 				metadata._self.value = uid++;
-			}
-		});
+			});
+		}
 
 		return result;
 	},
@@ -180,19 +316,601 @@ const proxy_handler: ProxyHandler<any> = {
 	},
 };
 
+const readonly_handler: ProxyHandler<any> = {
+	...proxy_handler,
+
+	set(_target, prop) {
+		throw_readonly(prop);
+	},
+	defineProperty(_target, prop) {
+		throw_readonly(prop);
+	},
+	deleteProperty(_target, prop) {
+		throw_readonly(prop);
+	},
+};
+
+function throw_readonly(key: unknown): never {
+	throw new TypeError(`Cannot write to ${String(key)}, store is readonly`);
+}
+
+function wrap_nested(proxy: object, target: object, value: unknown): unknown {
+	if (typeof value === 'object' && value !== null && deep_proxies.has(proxy)) {
+		if (readonly_proxies.has(proxy)) {
+			return readonly(value);
+		}
+
+		if (!parents.has(value)) {
+			parents.set(value, target);
+		}
+
+		return reactive(value);
+	}
+
+	return value;
+}
+
+function read_entry(target: any, metadata: CollectionMetadata, key: unknown): unknown {
+	return target.has(key) ? (metadata._is_map ? target.get(key) : key) : UNINITIALIZED;
+}
+
+function track_entry(target: Collection, metadata: CollectionMetadata, key: unknown): unknown {
+	const values = metadata._values as Map<unknown, Signal<any>>;
+	let s = values.get(key);
+
+	if (s === undefined && eval_listener && (!metadata._is_weak || is_weak_key(key))) {
+		values.set(key, s = signal(read_entry(target, metadata, key)));
+	}
+
+	return s !== undefined ? s.value : read_entry(target, metadata, key);
+}
+
+function is_weak_key(key: unknown): boolean {
+	return (typeof key === 'object' && key !== null) || typeof key === 'function';
+}
+
+function write_entry(
+	target: Collection,
+	metadata: CollectionMetadata,
+	key: unknown,
+	prev: unknown,
+	had: boolean,
+	next: unknown,
+	has: boolean,
+): void {
+	const s = (metadata._values as Map<unknown, Signal<any>>).get(key);
+
+	if (s !== undefined) {
+		s.value = has ? next : UNINITIALIZED;
+	}
+
+	if (had !== has) {
+		metadata._self.value = uid++;
+	}
+
+	metadata._contents.value = uid++;
+
+	if (write_listeners.size > 0) {
+		emit_write(target, key, prev, had, next, has);
+	}
+}
+
+function* iterate_collection(
+	proxy: object,
+	target: any,
+	kind: 'keys' | 'values' | 'entries',
+): IterableIterator<any> {
+	const is_map = target instanceof Map;
+
+	for (const entry of target.entries()) {
+		const key = wrap_nested(proxy, target, entry[0]);
+
+		if (kind === 'keys') {
+			yield key;
+		} else if (kind === 'values') {
+			yield is_map ? wrap_nested(proxy, target, entry[1]) : key;
+		} else {
+			yield [key, is_map ? wrap_nested(proxy, target, entry[1]) : key];
+		}
+	}
+}
+
+/**
+ * Methods of collections that are tracked, `this` is the reactive proxy.
+ */
+const collection_methods: Record<string | symbol, (this: any, ...args: any[]) => any> = {
+	get(key) {
+		const target = this[RAW_SYMBOL];
+		const value = track_entry(target, target[METADATA_SYMBOL], unwrap(key));
+
+		return value === UNINITIALIZED ? undefined : wrap_nested(this, target, value);
+	},
+	has(key) {
+		const target = this[RAW_SYMBOL];
+		return track_entry(target, target[METADATA_SYMBOL], unwrap(key)) !== UNINITIALIZED;
+	},
+	set(key, value) {
+		if (readonly_proxies.has(this)) {
+			throw_readonly(key);
+		}
+
+		const target = this[RAW_SYMBOL];
+		const metadata: CollectionMetadata = target[METADATA_SYMBOL];
+
+		key = unwrap(key);
+		value = unwrap(value);
+
+		const had = target.has(key);
+		const prev = target.get(key);
+
+		if (typeof value === 'object' && value !== null) {
+			parents.set(value, target);
+		}
+
+		target.set(key, value);
+
+		if (!had || prev !== value) {
+			batch(() => write_entry(target, metadata, key, prev, had, value, true));
+		}
+
+		return this;
+	},
+	add(value) {
+		if (readonly_proxies.has(this)) {
+			throw_readonly(value);
+		}
+
+		const target = this[RAW_SYMBOL];
+		const metadata: CollectionMetadata = target[METADATA_SYMBOL];
+
+		value = unwrap(value);
+
+		if (!target.has(value)) {
+			if (typeof value === 'object' && value !== null) {
+				parents.set(value, target);
+			}
+
+			target.add(value);
+			batch(() => write_entry(target, metadata, value, undefined, false, value, true));
+		}
+
+		return this;
+	},
+	delete(key) {
+		if (readonly_proxies.has(this)) {
+			throw_readonly(key);
+		}
+
+		const target = this[RAW_SYMBOL];
+		const metadata: CollectionMetadata = target[METADATA_SYMBOL];
+
+		key = unwrap(key);
+
+		const prev = read_entry(target, metadata, key);
+		const result = target.delete(key);
+
+		if (result) {
+			batch(() => write_entry(target, metadata, key, prev, true, undefined, false));
+		}
+
+		return result;
+	},
+	clear() {
+		if (readonly_proxies.has(this)) {
+			throw_readonly('clear');
+		}
+
+		const target = this[RAW_SYMBOL];
+		const metadata: CollectionMetadata = target[METADATA_SYMBOL];
+
+		if (target.size > 0) {
+			const entries = Array.from(target.entries() as Iterable<[unknown, unknown]>);
+
+			target.clear();
+
+			batch(() => {
+				for (let i = 0, ilen = entries.length; i < ilen; i++) {
+					const [key, prev] = entries[i];
+					write_entry(target, metadata, key, prev, true, undefined, false);
+				}
+			});
+		}
+	},
+	forEach(callback, this_arg) {
+		const target = this[RAW_SYMBOL];
+		const metadata: CollectionMetadata = target[METADATA_SYMBOL];
+
+		metadata._contents.value;
+
+		target.forEach((value: unknown, key: unknown) => {
+			callback.call(this_arg, wrap_nested(this, target, value), wrap_nested(this, target, key), this);
+		});
+	},
+	keys() {
+		const target = this[RAW_SYMBOL];
+
+		target[METADATA_SYMBOL]._self.value;
+		return iterate_collection(this, target, 'keys');
+	},
+	values() {
+		const target = this[RAW_SYMBOL];
+
+		target[METADATA_SYMBOL]._contents.value;
+		return iterate_collection(this, target, 'values');
+	},
+	entries() {
+		const target = this[RAW_SYMBOL];
+
+		target[METADATA_SYMBOL]._contents.value;
+		return iterate_collection(this, target, 'entries');
+	},
+	[Symbol.iterator]() {
+		const target = this[RAW_SYMBOL];
+
+		target[METADATA_SYMBOL]._contents.value;
+		return iterate_collection(this, target, target instanceof Map ? 'entries' : 'values');
+	},
+};
+
+/**
+ * Wraps an array method, `get_start` returns the first index the method could
+ * possibly change, only the elements from there onwards are compared.
+ */
+function create_array_method(
+	name: string,
+	get_start?: (target: any[]) => number,
+): (this: any, ...args: any[]) => any {
+	const method: (...args: any[]) => any = (array_proto as any)[name];
+
+	return function (this: any, ...args: any[]) {
+		const target = this[RAW_SYMBOL];
+		const start = get_start !== undefined ? get_start(target) : 0;
+		const prev = target.slice(start);
+
+		for (let i = 0, ilen = args.length; i < ilen; i++) {
+			args[i] = unwrap(args[i]);
+		}
+
+		// Running it against the original array skips over the traps, we'll
+		// figure out what has changed afterwards instead.
+		const result = method.apply(target, args);
+
+		batch(() => sync_array(target, target[METADATA_SYMBOL], prev, start));
+
+		if (result === target) {
+			return this;
+		}
+
+		if (name === 'splice') {
+			return result.map((value: unknown) => wrap_nested(this, target, value));
+		}
+
+		return wrap_nested(this, target, result);
+	};
+}
+
+/**
+ * Notifies of the elements that have changed, `prev` holds the elements from
+ * `start` onwards prior to the change.
+ */
+function sync_array(target: any[], metadata: ObjectMetadata, prev: any[], start: number): void {
+	const values = metadata._values;
+	const prev_length = start + prev.length;
+	const length = target.length;
+
+	let keys_changed = prev_length !== length;
+
+	const sync_index = (i: number) => {
+		const had = (i - start) in prev;
+		const has = i in target;
+		const prev_value = prev[i - start];
+		const next = target[i];
+
+		if (had !== has || prev_value !== next) {
+			const s = values[i];
+
+			if (s !== undefined) {
+				s.value = has ? next : UNINITIALIZED;
+			}
+
+			if (had !== has) {
+				keys_changed = true;
+			}
+
+			if (typeof next === 'object' && next !== null) {
+				parents.set(next, target);
+			}
+
+			if (write_listeners.size > 0) {
+				emit_write(target, '' + i, prev_value, had, next, has);
+			}
+		}
+	};
+
+	for (let i = start; i < length; i++) {
+		sync_index(i);
+	}
+
+	// Removed elements are synced starting from the last element, the same order
+	// as they would've been removed one by one.
+	for (let i = prev_length - 1; i >= length; i--) {
+		sync_index(i);
+	}
+
+	if (prev_length !== length) {
+		const ls = values.length;
+
+		if (ls !== undefined) {
+			ls.value = length;
+		}
+
+		if (write_listeners.size > 0) {
+			emit_write(target, 'length', prev_length, true, length, true);
+		}
+	}
+
+	if (keys_changed) {
+		metadata._self.value = uid++;
+	}
+}
+
+/**
+ * Mutating methods of arrays, each call is made into a single batch that only
+ * notifies of the indexes that have changed. `this` is the reactive proxy.
+ */
+const array_methods: Record<string | symbol, (this: any, ...args: any[]) => any> = {
+	copyWithin: /*#__PURE__*/ create_array_method('copyWithin'),
+	fill: /*#__PURE__*/ create_array_method('fill'),
+	pop: /*#__PURE__*/ create_array_method('pop', (target) => Math.max(target.length - 1, 0)),
+	push: /*#__PURE__*/ create_array_method('push', (target) => target.length),
+	reverse: /*#__PURE__*/ create_array_method('reverse'),
+	shift: /*#__PURE__*/ create_array_method('shift'),
+	sort: /*#__PURE__*/ create_array_method('sort'),
+	splice: /*#__PURE__*/ create_array_method('splice'),
+	unshift: /*#__PURE__*/ create_array_method('unshift'),
+};
+
+const collection_handler: ProxyHandler<any> = {
+	get(target, prop) {
+		if (prop === RAW_SYMBOL) {
+			return target;
+		}
+
+		const metadata: CollectionMetadata = target[METADATA_SYMBOL];
+
+		if (prop === 'size') {
+			metadata._self.value;
+			return target.size;
+		}
+
+		if (prop in target && Object.hasOwn(collection_methods, prop)) {
+			return collection_methods[prop];
+		}
+
+		const value = target[prop];
+
+		// Any other method has to be called on the collection itself, we can't
+		// tell what it reads so it's tracked as reading everything.
+		if (typeof value === 'function') {
+			metadata._contents.value;
+			return value.bind(target);
+		}
+
+		return value;
+	},
+};
+
+function emit_write(
+	target: object,
+	key: unknown,
+	prev: unknown,
+	had: boolean,
+	next: unknown,
+	has: boolean,
+): void {
+	const write: StoreWrite = { _target: target, _key: key, _prev: prev, _had: had, _next: next, _has: has };
+
+	for (const listener of write_listeners) {
+		listener(write);
+	}
+}
+
+/**
+ * @internal
+ * Listens for writes made through any reactive proxy
+ * @returns Function to stop listening
+ */
+export function listen_writes(listener: StoreWriteListener): () => void {
+	write_listeners.add(listener);
+	return () => write_listeners.delete(listener);
+}
+
+/**
+ * @internal
+ * Checks whether an object is held by the root object, or is the root object
+ * itself, going by the last place each object has been seen to be held by.
+ */
+export function is_held_by(root: object, obj: object): boolean {
+	let seen: Set<object> | undefined;
+
+	for (let depth = 0, current: object | undefined = obj; current !== undefined; depth++) {
+		if (current === root) {
+			return true;
+		}
+
+		// Only bother guarding against cyclic objects once we're this deep.
+		if (depth > 32) {
+			seen ??= new Set();
+
+			if (seen.has(current)) {
+				return false;
+			}
+
+			seen.add(current);
+		}
+
+		current = parents.get(current);
+	}
+
+	return false;
+}
+
+/**
+ * @internal
+ * Retrieves the keys leading from the root object to an object, going by the
+ * last place each object has been seen to be held by.
+ * @returns The keys, or undefined if the object isn't held by the root object
+ */
+export function get_path(root: object, obj: object): unknown[] | undefined {
+	if (!is_held_by(root, obj)) {
+		return undefined;
+	}
+
+	const path: unknown[] = [];
+
+	for (let current = obj; current !== root;) {
+		const parent = parents.get(current)!;
+		const key = find_key(parent, current);
+
+		// Object has since been moved elsewhere or removed from its parent.
+		if (key === UNINITIALIZED) {
+			return undefined;
+		}
+
+		path.push(key);
+		current = parent;
+	}
+
+	return path.reverse();
+}
+
+function find_key(parent: any, child: object): unknown {
+	if (Array.isArray(parent)) {
+		const index = parent.indexOf(child);
+		return index !== -1 ? '' + index : UNINITIALIZED;
+	}
+
+	if (parent instanceof Map) {
+		for (const [key, value] of parent) {
+			if (value === child) {
+				return key;
+			}
+		}
+
+		return UNINITIALIZED;
+	}
+
+	if (!is_collection(parent)) {
+		for (const key of Object.keys(parent)) {
+			if (parent[key] === child) {
+				return key;
+			}
+		}
+	}
+
+	return UNINITIALIZED;
+}
+
+function get_memoized_getter(
+	target: object,
+	prop: string | symbol,
+	receiver: object,
+): ReadonlySignal<any> | undefined {
+	let getters = proxy_getters.get(receiver);
+	let getter = getters?.[prop];
+
+	if (getter === undefined) {
+		const descriptor = find_descriptor(target, prop);
+
+		if (descriptor === undefined || descriptor.get === undefined) {
+			return undefined;
+		}
+
+		if (getters === undefined) {
+			proxy_getters.set(
+				receiver,
+				getters = Object.create(null) as Record<string | symbol, ReadonlySignal<any>>,
+			);
+		}
+
+		// Not owned by whichever effect happens to read it first, otherwise it'd be
+		// disposed alongside that effect.
+		getter = getters[prop] = root(() => computed(() => Reflect.get(target, prop, receiver)));
+	}
+
+	return getter;
+}
+
+function find_descriptor(obj: object | null, prop: string | symbol): PropertyDescriptor | undefined {
+	for (; obj !== null; obj = get_prototype_of(obj)) {
+		const descriptor = get_descriptor(obj, prop);
+
+		if (descriptor !== undefined) {
+			return descriptor;
+		}
+	}
+}
+
 function is_wrappable(obj: any): boolean {
 	const proto = get_prototype_of(obj);
-	return (proto === null || proto === object_proto || proto === array_proto) && is_extensible(obj);
+
+	return (
+		proto === null ||
+		proto === object_proto ||
+		proto === array_proto ||
+		is_collection_proto(proto) ||
+		is_reactive_proto(proto)
+	) && is_extensible(obj) && !raw_objects.has(obj);
 }
 
-function initialize(value: any): ObjectMetadata {
+function is_collection_proto(proto: any): boolean {
+	return proto === map_proto || proto === set_proto || proto === weakmap_proto || proto === weakset_proto;
+}
+
+function is_reactive_proto(proto: any): boolean {
+	for (; proto !== null; proto = get_prototype_of(proto)) {
+		if (reactive_protos.has(proto)) {
+			return true;
+		}
+	}
+
+	return false;
+}
+
+function is_collection(value: any): boolean {
+	return value instanceof Map || value instanceof Set || value instanceof WeakMap || value instanceof WeakSet;
+}
+
+function initialize(value: any): ObjectMetadata | CollectionMetadata {
+	if (is_collection(value)) {
+		const is_weak = value instanceof WeakMap || value instanceof WeakSet;
+
+		return {
+			_is_map: value instanceof Map || value instanceof WeakMap,
+			_is_weak: is_weak,
+			_self: signal(0),
+			_contents: signal(0),
+			_values: is_weak ? new WeakMap() : new Map(),
+		};
+	}
+
 	return {
-		_is_array: get_prototype_of(value) === array_proto,
+		_is_array: Array.isArray(value),
 		_self: signal(0),
 		_values: Object.create(null),
 	};
 }
 
+function create_proxy(value: any, is_readonly: boolean): any {
+	// Collection methods check on their own whether they're called on a readonly
+	// proxy, as they're called with the proxy as `this`.
+	const handler = is_collection(value) ? collection_handler : is_readonly ? readonly_handler : proxy_handler;
+
+	value[METADATA_SYMBOL] ||= initialize(value);
+
+	return new Proxy(value, handler);
+}
+
 /**
  * Retrieve the original object from a reactive proxy
  * @param value Any value
@@ -213,14 +931,11 @@ export function unwrap<T>(value: T): T {
  * @returns If passed an object, a reactive proxy of that object, otherwise returned as-is.
  */
 export function shallowReactive<T extends object>(value: T): T {
-	if (typeof value === 'object' && value !== null && is_wrappable(value)) {
+	if (typeof value === 'object' && value !== null && is_wrappable(value) && !readonly_proxies.has(value)) {
 		let proxy = object_to_shallow.get(value = unwrap(value));
 
 		if (proxy === undefined) {
-			// @ts-expect-error: wrong type
-			value[METADATA_SYMBOL] ||= initialize(value);
-
-			object_to_shallow.set(value, proxy = new Proxy(value, proxy_handler));
+			object_to_shallow.set(value, proxy = create_proxy(value, false));
 		}
 
 		return proxy;
@@ -235,19 +950,89 @@ export function shallowReactive<T extends object>(value: T): T {
  * @returns If passed an object, a reactive proxy of that object, otherwise returned as-is.
  */
 export function reactive<T extends object>(value: T): T {
-	if (typeof value === 'object' && value !== null && is_wrappable(value)) {
+	if (typeof value === 'object' && value !== null && is_wrappable(value) && !readonly_proxies.has(value)) {
 		let proxy = object_to_deep.get(value = unwrap(value));
 
 		if (proxy === undefined) {
-			// @ts-expect-error: wrong type
-			value[METADATA_SYMBOL] ||= initialize(value);
+			object_to_deep.set(value, proxy = create_proxy(value, false));
+			deep_proxies.add(proxy);
+		}
+
+		return proxy;
+	}
+
+	return value;
+}
+
+/**
+ * Readonly view of an object, including any nested objects.
+ */
+export type DeepReadonly<T> = T extends (...args: any[]) => any ? T
+	: T extends Map<infer K, infer V> ? ReadonlyMap<K, DeepReadonly<V>>
+	: T extends Set<infer V> ? ReadonlySet<DeepReadonly<V>>
+	: T extends object ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+	: T;
+
+/**
+ * Creates a shallow readonly proxy of an object, reads are still tracked but
+ * writes throw
+ * @param value Any value
+ * @returns If passed an object, a readonly proxy of that object, otherwise returned as-is.
+ */
+export function shallowReadonly<T extends object>(value: T): Readonly<T> {
+	if (typeof value === 'object' && value !== null && is_wrappable(value)) {
+		let proxy = object_to_shallow_readonly.get(value = unwrap(value));
+
+		if (proxy === undefined) {
+			object_to_shallow_readonly.set(value, proxy = create_proxy(value, true));
+			readonly_proxies.add(proxy);
+		}
+
+		return proxy;
+	}
 
-			object_to_deep.set(value, proxy = new Proxy(value, proxy_handler));
+	return value;
+}
+
+/**
+ * Creates a deep readonly proxy of an object, reads are still tracked but
+ * writes throw
+ * @param value Any value
+ * @returns If passed an object, a readonly proxy of that object, otherwise returned as-is.
+ */
+export function readonly<T extends object>(value: T): DeepReadonly<T> {
+	if (typeof value === 'object' && value !== null && is_wrappable(value)) {
+		let proxy = object_to_readonly.get(value = unwrap(value));
+
+		if (proxy === undefined) {
+			object_to_readonly.set(value, proxy = create_proxy(value, true));
 			deep_proxies.add(proxy);
+			readonly_proxies.add(proxy);
 		}
 
 		return proxy;
 	}
 
+	return value as DeepReadonly<T>;
+}
+
+/**
+ * Allows instances of a class to be made reactive, including instances of its
+ * subclasses. Can also be used as a class decorator.
+ * @param constructor Class to allow
+ * @returns The class as-is
+ */
+export function markReactive<T extends abstract new (...args: any[]) => any>(constructor: T): T {
+	reactive_protos.add(constructor.prototype);
+	return constructor;
+}
+
+/**
+ * Prevents an object from ever being made reactive
+ * @param value Object to prevent
+ * @returns The object as-is
+ */
+export function markRaw<T extends object>(value: T): T {
+	raw_objects.add(value);
 	return value;
 }
@@ -0,0 +1,314 @@
+/**
+ * @module
+ * Compatibility layer for the TC39 Signals proposal, exposing its API surface
+ * on top of the signals from this package.
+ */
+
+import {
+	Computed as ComputedNode,
+	Effect,
+	eval_listener,
+	Flags,
+	root,
+	Signal as SignalNode,
+	type SignalOptions,
+	untrack as untrack_node,
+} from './mod.ts';
+
+const WATCHED_SYMBOL = /*#__PURE__*/ Symbol('watched');
+const UNWATCHED_SYMBOL = /*#__PURE__*/ Symbol('unwatched');
+
+/** whether we're currently calling a watcher's notify function */
+let is_notifying = false;
+
+const node_to_signal = /*#__PURE__*/ new WeakMap<SignalNode<any>, AnySignal<any>>();
+
+/**
+ * Either a state or a computed signal.
+ */
+export type AnySignal<T = unknown> = State<T> | Computed<T>;
+/**
+ * Either a computed signal or a watcher.
+ */
+export type AnySink = Computed<any> | Watcher;
+
+export interface Options<T> {
+	/** Comparator used to check whether the value has changed */
+	equals?: (this: AnySignal<T>, t: T, t2: T) => boolean;
+	/** Called once the signal gains its first sink */
+	[WATCHED_SYMBOL]?: (this: AnySignal<T>) => void;
+	/** Called once the signal loses its last sink */
+	[UNWATCHED_SYMBOL]?: (this: AnySignal<T>) => void;
+}
+
+function to_node_options<T>(signal: AnySignal<T>, options: Options<T> | undefined): SignalOptions<T> {
+	const equals = options?.equals;
+	const watched = options?.[WATCHED_SYMBOL];
+	const unwatched = options?.[UNWATCHED_SYMBOL];
+
+	return {
+		// The proposal compares with `Object.is` by default rather than `===`.
+		equals: equals ? (a, b) => equals.call(signal, a, b) : Object.is,
+		watched: watched && (() => watched.call(signal)),
+		unwatched: unwatched && (() => unwatched.call(signal)),
+	};
+}
+
+function to_signal(node: SignalNode<any>): AnySignal<any> {
+	let signal = node_to_signal.get(node);
+
+	if (signal === undefined) {
+		signal = Object.create(node instanceof ComputedNode ? Computed.prototype : State.prototype) as AnySignal;
+		signal._node = node;
+
+		node_to_signal.set(node, signal);
+	}
+
+	return signal;
+}
+
+function to_sink(node: ComputedNode<any> | Effect<any>): AnySink | undefined {
+	if (node instanceof WatcherNode) {
+		return node._watcher;
+	}
+
+	if (node instanceof ComputedNode) {
+		return to_signal(node) as Computed<any>;
+	}
+}
+
+export class State<T> {
+	/** @internal */
+	_node!: SignalNode<T>;
+
+	constructor(initialValue: T, options?: Options<T>) {
+		this._node = new SignalNode(initialValue, to_node_options(this, options));
+		node_to_signal.set(this._node, this);
+	}
+
+	get(): T {
+		return this._node.value;
+	}
+
+	set(value: T): void {
+		if (is_notifying) {
+			throw new Error(`Writes to signals not permitted during Watcher callback`);
+		}
+
+		this._node.value = value;
+	}
+}
+
+export class Computed<T> {
+	/** @internal */
+	_node!: ComputedNode<T>;
+
+	constructor(callback: (this: Computed<T>) => T, options?: Options<T>) {
+		// The proposal has no notion of ownership, so it's not attached to the
+		// effect that happens to be running.
+		this._node = root(() =>
+			// @ts-expect-error: initial value is never passed to the callback
+			new ComputedNode(() => callback.call(this), undefined, to_node_options(this, options))
+		);
+		node_to_signal.set(this._node, this);
+	}
+
+	get(): T {
+		const node = this._node;
+
+		if (node._flags & Flags.RUNNING) {
+			throw new Error(`Detected cycle in computations.`);
+		}
+
+		return node.value;
+	}
+}
+
+class WatcherNode extends Effect<void> {
+	/** @internal */
+	_watcher: Watcher;
+
+	constructor(watcher: Watcher) {
+		super(() => {}, undefined);
+		this._watcher = watcher;
+	}
+
+	/** @internal */
+	override _notify(flag: Flags.DIRTY | Flags.MAYBE_DIRTY): void {
+		if (!(this._flags & Flags.NOTIFIED)) {
+			this._flags |= flag | Flags.NOTIFIED;
+
+			const prev_notifying = is_notifying;
+			is_notifying = true;
+
+			try {
+				untrack_node(() => this._watcher._notify.call(this._watcher));
+			} finally {
+				is_notifying = prev_notifying;
+			}
+		}
+	}
+}
+
+export class Watcher {
+	/** @internal */
+	_notify: (this: Watcher) => void;
+	/** @internal */
+	_node: WatcherNode;
+
+	constructor(notify: (this: Watcher) => void) {
+		this._notify = notify;
+
+		// Watchers are never disposed by the effect that happens to be running.
+		this._node = root(() => new WatcherNode(this));
+	}
+
+	/**
+	 * Starts watching the given signals, and rearms the watcher so that notify
+	 * gets called on the next change.
+	 */
+	watch(...signals: AnySignal<any>[]): void {
+		const node = this._node;
+		const dependencies = node._dependencies;
+
+		node._flags &= ~(Flags.NOTIFIED | Flags.DIRTY | Flags.MAYBE_DIRTY);
+
+		for (let i = 0, ilen = signals.length; i < ilen; i++) {
+			const source = signals[i]._node;
+
+			if (!dependencies.includes(source)) {
+				dependencies.push(source);
+				node._links.push(source._subscribe(node));
+			}
+		}
+	}
+
+	/**
+	 * Stops watching the given signals.
+	 */
+	unwatch(...signals: AnySignal<any>[]): void {
+		const node = this._node;
+		const dependencies = node._dependencies;
+		const links = node._links;
+
+		for (let i = 0, ilen = signals.length; i < ilen; i++) {
+			const source = signals[i]._node;
+			const index = dependencies.indexOf(source);
+
+			if (index !== -1) {
+				source._unsubscribe(links[index]);
+
+				dependencies.splice(index, 1);
+				links.splice(index, 1);
+			}
+		}
+	}
+
+	/**
+	 * Retrieves the watched computed signals that are pending to be recomputed.
+	 */
+	getPending(): AnySignal<any>[] {
+		const dependencies = this._node._dependencies;
+		const pending: AnySignal<any>[] = [];
+
+		for (let i = 0, ilen = dependencies.length; i < ilen; i++) {
+			const source = dependencies[i];
+
+			if (source instanceof ComputedNode && source._flags & (Flags.DIRTY | Flags.MAYBE_DIRTY)) {
+				pending.push(to_signal(source));
+			}
+		}
+
+		return pending;
+	}
+}
+
+/**
+ * Read signal values without being tracked as a dependency
+ */
+export function untrack<T>(callback: () => T): T {
+	return untrack_node(callback);
+}
+
+/**
+ * Retrieves the computed signal that is currently running
+ */
+export function currentComputed(): Computed<any> | undefined {
+	const listener = eval_listener;
+
+	if (listener instanceof ComputedNode) {
+		return to_signal(listener) as Computed<any>;
+	}
+}
+
+/**
+ * Retrieves the signals a computed signal or a watcher is depending on
+ */
+export function introspectSources(sink: AnySink): AnySignal<any>[] {
+	return sink._node._dependencies.map(to_signal);
+}
+
+/**
+ * Retrieves the computed signals and watchers depending on a signal
+ */
+export function introspectSinks(signal: AnySignal<any>): AnySink[] {
+	const sinks: AnySink[] = [];
+
+	for (let link = signal._node._first_dependant; link !== undefined; link = link._next) {
+		const sink = to_sink(link._target);
+
+		if (sink !== undefined) {
+			sinks.push(sink);
+		}
+	}
+
+	return sinks;
+}
+
+/**
+ * Checks whether a signal has anything depending on it
+ */
+export function hasSinks(signal: AnySignal<any>): boolean {
+	return signal._node._first_dependant !== undefined;
+}
+
+/**
+ * Checks whether a computed signal or a watcher is depending on anything
+ */
+export function hasSources(sink: AnySink): boolean {
+	return sink._node._dependencies.length > 0;
+}
+
+/**
+ * Converts a signal from this package into a proposal-compatible signal
+ */
+export function fromNative<T>(node: SignalNode<T>): AnySignal<T> {
+	return to_signal(node);
+}
+
+/**
+ * Retrieves the signal from this package that backs a proposal-compatible
+ * signal, it can be used with `effect()` and friends.
+ */
+export function toNative<T>(signal: AnySignal<T>): SignalNode<T> {
+	return signal._node;
+}
+
+/**
+ * The proposal's `Signal` namespace.
+ */
+export const Signal = {
+	State,
+	Computed,
+	subtle: {
+		Watcher,
+		untrack,
+		currentComputed,
+		introspectSources,
+		introspectSinks,
+		hasSinks,
+		hasSources,
+		watched: WATCHED_SYMBOL,
+		unwatched: UNWATCHED_SYMBOL,
+	},
+} as const;
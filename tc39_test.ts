@@ -0,0 +1,471 @@
+import assert from 'node:assert/strict';
+
+import { effect as native_effect, signal as native_signal } from './mod.ts';
+import { type AnySignal, fromNative, Signal, toNative } from './tc39.ts';
+
+// Ported from the proposal's polyfill tests, adapted to `Deno.test`.
+
+Deno.test('State', () => {
+	const state = new Signal.State(0);
+	assert.equal(state.get(), 0);
+
+	state.set(10);
+	assert.equal(state.get(), 10);
+});
+
+Deno.test('Computed', () => {
+	const state = new Signal.State(1);
+	const computed = new Signal.Computed(() => state.get() * 2);
+	assert.equal(computed.get(), 2);
+
+	state.set(5);
+	assert.equal(state.get(), 5);
+	assert.equal(computed.get(), 10);
+});
+
+Deno.test('Watcher', () => {
+	let notified = 0;
+	const watcher = new Signal.subtle.Watcher(() => {
+		notified++;
+	});
+
+	const effect = (cb: () => void) => {
+		const c = new Signal.Computed(cb);
+		watcher.watch(c);
+		c.get();
+
+		return () => watcher.unwatch(c);
+	};
+
+	const flush_pending = () => {
+		for (const signal of watcher.getPending()) {
+			signal.get();
+		}
+
+		assert.deepEqual(watcher.getPending(), []);
+	};
+
+	let watched = 0;
+	let unwatched = 0;
+
+	const state = new Signal.State(1, {
+		[Signal.subtle.watched]: () => watched++,
+		[Signal.subtle.unwatched]: () => unwatched++,
+	});
+
+	state.set(100);
+	state.set(5);
+
+	const computed = new Signal.Computed(() => state.get() * 2);
+
+	let calls = 0;
+	let output = 0;
+	let computed_output = 0;
+
+	assert.equal(watched, 0);
+	assert.equal(unwatched, 0);
+
+	assert.equal(Signal.subtle.introspectSources(watcher).length, 0);
+	assert.equal(Signal.subtle.introspectSinks(computed).length, 0);
+	assert.equal(Signal.subtle.introspectSinks(state).length, 0);
+	assert.equal(Signal.subtle.hasSinks(state), false);
+
+	const destroy = effect(() => {
+		output = state.get();
+		computed_output = computed.get();
+		calls++;
+	});
+
+	assert.equal(Signal.subtle.hasSinks(state), true);
+
+	assert.equal(Signal.subtle.introspectSources(watcher).length, 1);
+	assert.equal(Signal.subtle.introspectSinks(computed).length, 1);
+	// One sink is the computed signal, the other is the effect.
+	assert.equal(Signal.subtle.introspectSinks(state).length, 2);
+
+	assert.equal(watched, 1);
+	assert.equal(unwatched, 0);
+	assert.equal(notified, 0);
+
+	state.set(10);
+
+	assert.equal(notified, 1);
+	assert.equal(calls, 1);
+	assert.equal(output, 5);
+	assert.equal(computed_output, 10);
+
+	flush_pending();
+
+	assert.equal(calls, 2);
+	assert.equal(output, 10);
+	assert.equal(computed_output, 20);
+
+	// Rearm the watcher so that it gets notified again.
+	watcher.watch();
+	state.set(20);
+
+	assert.equal(watcher.getPending().length, 1);
+	flush_pending();
+
+	assert.equal(notified, 2);
+	assert.equal(calls, 3);
+	assert.equal(output, 20);
+	assert.equal(computed_output, 40);
+
+	Signal.subtle.untrack(() => {
+		// Untracking doesn't affect writes, only reads.
+		state.set(999);
+		assert.equal(calls, 3);
+
+		flush_pending();
+		assert.equal(calls, 4);
+	});
+
+	destroy();
+
+	assert.equal(unwatched, 1);
+	assert.equal(Signal.subtle.introspectSources(watcher).length, 0);
+	assert.equal(Signal.subtle.hasSinks(state), false);
+
+	state.set(11);
+
+	assert.equal(notified, 2);
+	assert.equal(calls, 4);
+});
+
+Deno.test('Watcher rearms on watch() and unwatch()', () => {
+	let notified = 0;
+	const watcher = new Signal.subtle.Watcher(() => {
+		notified++;
+	});
+
+	const a = new Signal.State(0);
+	const b = new Signal.State(0);
+
+	watcher.watch(a, b);
+	assert.equal(Signal.subtle.hasSources(watcher), true);
+
+	a.set(1);
+	b.set(1);
+	assert.equal(notified, 1);
+
+	watcher.watch();
+	b.set(2);
+	assert.equal(notified, 2);
+
+	watcher.unwatch(a, b);
+	assert.equal(Signal.subtle.hasSources(watcher), false);
+
+	watcher.watch();
+	a.set(2);
+	assert.equal(notified, 2);
+});
+
+Deno.test('Watcher callback receiver', () => {
+	let receiver: unknown;
+	const watcher = new Signal.subtle.Watcher(function () {
+		receiver = this;
+	});
+
+	const state = new Signal.State(0);
+	watcher.watch(state);
+
+	state.set(1);
+	assert.equal(receiver, watcher);
+});
+
+Deno.test('Writes are prohibited during watcher callbacks', () => {
+	const state = new Signal.State(0);
+	const other = new Signal.State(0);
+
+	let error: unknown;
+	let read: unknown;
+
+	const watcher = new Signal.subtle.Watcher(() => {
+		read = state.get();
+
+		try {
+			other.set(1);
+		} catch (err) {
+			error = err;
+		}
+	});
+
+	watcher.watch(state);
+	state.set(1);
+
+	assert.equal(read, 1);
+	assert.ok(error instanceof Error);
+	assert.equal(error.message, `Writes to signals not permitted during Watcher callback`);
+	assert.equal(other.get(), 0);
+
+	// Writes are permitted again once the callback is over.
+	other.set(2);
+	assert.equal(other.get(), 2);
+});
+
+Deno.test('Writes are permitted during computed signals', () => {
+	const state = new Signal.State(0);
+	const computed = new Signal.Computed(() => {
+		state.set(1);
+		return 2;
+	});
+
+	assert.equal(computed.get(), 2);
+	assert.equal(state.get(), 1);
+});
+
+Deno.test('Computed signals cache errors', () => {
+	const state = new Signal.State('first');
+
+	let calls = 0;
+	const computed = new Signal.Computed(() => {
+		calls++;
+
+		const value = state.get();
+
+		if (value === 'first') {
+			throw new Error('first');
+		}
+
+		return value;
+	});
+
+	assert.throws(() => computed.get(), { message: 'first' });
+	assert.equal(calls, 1);
+
+	assert.throws(() => computed.get(), { message: 'first' });
+	assert.equal(calls, 1);
+
+	state.set('second');
+	assert.equal(computed.get(), 'second');
+	assert.equal(calls, 2);
+
+	assert.equal(computed.get(), 'second');
+	assert.equal(calls, 2);
+});
+
+Deno.test('Computed signals detect cycles', () => {
+	const computed: AnySignal<any> = new Signal.Computed(() => computed.get());
+	assert.throws(() => computed.get(), { message: `Detected cycle in computations.` });
+});
+
+Deno.test('Computed callback receiver', () => {
+	let receiver: unknown;
+	const computed = new Signal.Computed(function () {
+		receiver = this;
+	});
+
+	computed.get();
+	assert.equal(receiver, computed);
+});
+
+Deno.test('currentComputed', () => {
+	assert.equal(Signal.subtle.currentComputed(), undefined);
+
+	const computed: AnySignal<any> = new Signal.Computed(() => Signal.subtle.currentComputed());
+	assert.equal(computed.get(), computed);
+
+	// Untracked reads aren't made on behalf of any computed signal.
+	const untracked = new Signal.Computed(() => Signal.subtle.untrack(() => Signal.subtle.currentComputed()));
+	assert.equal(untracked.get(), undefined);
+});
+
+Deno.test('untrack', () => {
+	const state = new Signal.State(1);
+
+	let calls = 0;
+	const computed = new Signal.Computed(() => {
+		calls++;
+		return Signal.subtle.untrack(() => state.get());
+	});
+
+	assert.equal(computed.get(), 1);
+
+	state.set(2);
+	assert.equal(computed.get(), 1);
+	assert.equal(calls, 1);
+	assert.equal(Signal.subtle.hasSources(computed), false);
+});
+
+Deno.test('Dynamic dependencies', () => {
+	const states = Array.from('abcdefgh', (char) => new Signal.State(char));
+	const sources = new Signal.State(states);
+
+	const computed = new Signal.Computed(() => {
+		let str = '';
+
+		for (const state of sources.get()) {
+			str += state.get();
+		}
+
+		return str;
+	});
+
+	assert.equal(computed.get(), 'abcdefgh');
+	assert.deepEqual(Signal.subtle.introspectSources(computed).slice(1), states);
+
+	sources.set(states.slice(0, 5));
+	assert.equal(computed.get(), 'abcde');
+	assert.deepEqual(Signal.subtle.introspectSources(computed).slice(1), states.slice(0, 5));
+
+	sources.set(states.slice(3));
+	assert.equal(computed.get(), 'defgh');
+	assert.deepEqual(Signal.subtle.introspectSources(computed).slice(1), states.slice(3));
+});
+
+Deno.test('Custom equality on State', () => {
+	let answer = true;
+	const state = new Signal.State(1, {
+		equals() {
+			return answer;
+		},
+	});
+
+	let calls = 0;
+	const computed = new Signal.Computed(() => (calls++, state.get()));
+
+	assert.equal(computed.get(), 1);
+	assert.equal(calls, 1);
+
+	state.set(2);
+	assert.equal(state.get(), 1);
+	assert.equal(computed.get(), 1);
+	assert.equal(calls, 1);
+
+	answer = false;
+
+	state.set(2);
+	assert.equal(state.get(), 2);
+	assert.equal(computed.get(), 2);
+	assert.equal(calls, 2);
+
+	state.set(2);
+	assert.equal(state.get(), 2);
+	assert.equal(computed.get(), 2);
+	assert.equal(calls, 3);
+});
+
+Deno.test('Custom equality on Computed', () => {
+	let answer = true;
+	let value = 1;
+
+	const source = new Signal.State(1);
+	const derived = new Signal.Computed(() => (source.get(), value), {
+		equals() {
+			return answer;
+		},
+	});
+
+	let calls = 0;
+	const computed = new Signal.Computed(() => (calls++, derived.get()));
+
+	assert.equal(computed.get(), 1);
+	assert.equal(calls, 1);
+
+	source.set(2);
+	value = 2;
+	assert.equal(derived.get(), 1);
+	assert.equal(computed.get(), 1);
+	assert.equal(calls, 1);
+
+	answer = false;
+
+	source.set(3);
+	assert.equal(derived.get(), 2);
+	assert.equal(computed.get(), 2);
+	assert.equal(calls, 2);
+
+	source.set(4);
+	assert.equal(derived.get(), 2);
+	assert.equal(computed.get(), 2);
+	assert.equal(calls, 3);
+});
+
+Deno.test('Custom equality receiver', () => {
+	let receiver: unknown;
+	const state = new Signal.State(1, {
+		equals(a, b) {
+			receiver = this;
+			return a === b;
+		},
+	});
+
+	state.set(2);
+	assert.equal(receiver, state);
+});
+
+Deno.test('Default equality is Object.is', () => {
+	let notified = 0;
+	const watcher = new Signal.subtle.Watcher(() => {
+		notified++;
+	});
+
+	const state = new Signal.State(NaN);
+	watcher.watch(state);
+
+	state.set(NaN);
+	assert.equal(notified, 0);
+
+	state.set(1);
+	assert.equal(notified, 1);
+});
+
+Deno.test('watched and unwatched callbacks', () => {
+	const log: string[] = [];
+	let receiver: unknown;
+
+	const state = new Signal.State(1, {
+		[Signal.subtle.watched]() {
+			receiver = this;
+			log.push('watched');
+		},
+		[Signal.subtle.unwatched]() {
+			log.push('unwatched');
+		},
+	});
+
+	const computed = new Signal.Computed(() => state.get());
+	const watcher = new Signal.subtle.Watcher(() => {});
+
+	computed.get();
+	assert.deepEqual(log, []);
+
+	watcher.watch(computed);
+	assert.deepEqual(log, ['watched']);
+	assert.equal(receiver, state);
+
+	watcher.unwatch(computed);
+	assert.deepEqual(log, ['watched', 'unwatched']);
+});
+
+Deno.test('Computed signals created inside of an effect outlive its reruns', () => {
+	const rerun = native_signal(0);
+	const state = new Signal.State(1);
+
+	let computed!: AnySignal<number>;
+
+	const dispose = native_effect(() => {
+		rerun.value;
+		computed ??= new Signal.Computed(() => state.get() * 2);
+	});
+
+	assert.equal(computed.get(), 2);
+
+	rerun.value = 1;
+	state.set(5);
+	assert.equal(computed.get(), 10);
+
+	dispose();
+});
+
+Deno.test('fromNative and toNative', () => {
+	const node = native_signal(1);
+	const state = fromNative(node);
+
+	assert.equal(fromNative(node), state);
+	assert.equal(toNative(state), node);
+
+	node.value = 2;
+	assert.equal(state.get(), 2);
+});
@@ -0,0 +1,139 @@
+/**
+ * @module
+ * Watch explicit sources for changes, receiving both the previous and the next
+ * values.
+ */
+
+import { cleanup, type DisposeFunction, effect, type ReadonlySignal, Scope, untrack } from './mod.ts';
+
+/**
+ * Signal or getter function to watch.
+ */
+export type WatchSource<T> = ReadonlySignal<T> | (() => T);
+
+/**
+ * Values of multiple watched sources.
+ */
+export type WatchValues<T extends readonly WatchSource<unknown>[]> = {
+	[K in keyof T]: T[K] extends WatchSource<infer V> ? V : never;
+};
+
+/**
+ * The watch callback itself, ran without being tracked.
+ */
+export type WatchCallback<Next, Prev> = (
+	next: Next,
+	prev: Prev,
+	onCleanup: (fn: () => void) => void,
+) => void;
+
+export interface WatchOptions {
+	/** Whether to run the callback right away, defaults to false */
+	immediate?: boolean;
+	/** Whether to stop watching after the callback has ran once, defaults to false */
+	once?: boolean;
+}
+
+function read<T>(source: WatchSource<T>): T {
+	return typeof source === 'function' ? source() : source.value;
+}
+
+function has_changed(is_multi: boolean, prev: any, next: any): boolean {
+	if (!is_multi) {
+		return !Object.is(prev, next);
+	}
+
+	for (let i = 0, ilen = next.length; i < ilen; i++) {
+		if (!Object.is(prev[i], next[i])) {
+			return true;
+		}
+	}
+
+	return false;
+}
+
+function register_cleanup(fn: () => void): void {
+	cleanup(fn);
+}
+
+/**
+ * Runs a callback whenever the watched sources change, only the sources are
+ * tracked as dependencies.
+ * @param source Signal, getter function, or an array of them to watch
+ * @param callback Function receiving the next and previous values
+ * @param options Watch options
+ * @returns Function to stop watching
+ */
+export function watch<const T extends readonly WatchSource<unknown>[]>(
+	sources: T,
+	callback: WatchCallback<WatchValues<T>, WatchValues<T> | undefined>,
+	options?: WatchOptions,
+): DisposeFunction;
+export function watch<T>(
+	source: WatchSource<T>,
+	callback: WatchCallback<T, T | undefined>,
+	options?: WatchOptions,
+): DisposeFunction;
+export function watch(
+	source: WatchSource<unknown> | readonly WatchSource<unknown>[],
+	callback: WatchCallback<any, any>,
+	options?: WatchOptions,
+): DisposeFunction {
+	const is_multi = Array.isArray(source);
+	const getter = is_multi ? () => source.map(read) : () => read(source as WatchSource<unknown>);
+
+	const immediate = !!options?.immediate;
+	const once = !!options?.once;
+
+	// The effect reruns whenever the sources notify, even if the values end up
+	// being the same, so the callback is ran under its own scope that's only
+	// disposed before the next callback, or once we stop watching.
+	const container = new Scope(false);
+	let scope: Scope | undefined;
+
+	let initialized = false;
+	let stopped = false;
+	let prev: any;
+
+	const run_callback = (next: any, current: any) => {
+		scope?._dispose();
+
+		const child = scope = container._run(() => new Scope(false));
+		untrack(() => child._run(() => callback(next, current, register_cleanup)));
+	};
+
+	const stop = () => {
+		dispose();
+		container._dispose();
+	};
+
+	const dispose = effect(() => {
+		const next = getter();
+
+		// First run only collects the dependencies and the initial value, unless
+		// we're told to run the callback right away.
+		if (!stopped && (initialized ? has_changed(is_multi, prev, next) : immediate)) {
+			const current = prev;
+
+			run_callback(next, current);
+
+			if (once) {
+				stopped = true;
+
+				// Can't dispose just yet if this is the first run.
+				if (initialized) {
+					stop();
+				}
+			}
+		}
+
+		initialized = true;
+		prev = next;
+	});
+
+	if (stopped) {
+		stop();
+	}
+
+	return stop;
+}
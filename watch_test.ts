@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+
+import { batch, signal } from './mod.ts';
+import { watch } from './watch.ts';
+
+Deno.test('Cleanups only run before the next callback and on stop', () => {
+	const a = signal(1);
+	const b = signal(2);
+	const log: string[] = [];
+
+	const stop = watch(() => a.value + b.value, (value, _prev, onCleanup) => {
+		log.push(`callback ${value}`);
+		onCleanup(() => log.push(`cleanup ${value}`));
+	}, { immediate: true });
+
+	// Sources have notified, but the value is still the same.
+	batch(() => {
+		a.value = 2;
+		b.value = 1;
+	});
+
+	assert.deepEqual(log, ['callback 3']);
+
+	a.value = 5;
+	assert.deepEqual(log, ['callback 3', 'cleanup 3', 'callback 6']);
+
+	stop();
+	assert.deepEqual(log, ['callback 3', 'cleanup 3', 'callback 6', 'cleanup 6']);
+});
+
+Deno.test('Values are compared with Object.is', () => {
+	const source = signal(0);
+
+	let calls = 0;
+	const stop = watch(() => source.value / 0 - source.value / 0, () => calls++);
+
+	source.value = 1;
+	assert.equal(calls, 0);
+
+	stop();
+});